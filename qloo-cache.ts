@@ -0,0 +1,162 @@
+import { logger } from "firebase-functions";
+import { createRequestKey } from "./qloo-cassette";
+
+// Response cache for QlooClient. Entries are keyed like cassettes (endpoint + sorted params)
+// and expire per endpoint: catalog lookups change rarely, recommendations and trends more often.
+
+export interface QlooCacheEntry {
+  value: string; // Serialized JSON, so callers can never mutate a cached response
+  expiresAt: number;
+}
+
+// Implement this to persist the cache (Redis, Firestore, ...). Failures are logged, never thrown to callers.
+export interface QlooCacheBackend {
+  get(key: string): Promise<QlooCacheEntry | undefined>;
+  set(key: string, entry: QlooCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface QlooCacheOptions {
+  backend?: QlooCacheBackend;
+  ttls?: Record<string, number>; // Milliseconds per endpoint, merged over DEFAULT_CACHE_TTLS
+  defaultTtlMs?: number; // For endpoints without an entry in ttls
+}
+
+export interface QlooCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  errors: number;
+  byEndpoint: Record<string, { hits: number; misses: number }>;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  '/search': 24 * HOUR,
+  '/entities': 24 * HOUR, // Cached per entity ID, not per batch
+  '/v2/tags': 24 * HOUR,
+  '/v2/audiences': 24 * HOUR,
+  '/v2/insights': HOUR,
+  '/v2/insights/compare': HOUR,
+  '/trends/category': 15 * MINUTE
+};
+
+// In-memory LRU: a Map iterates in insertion order, so re-inserting on read keeps the oldest entry first
+export class MemoryLRUCache implements QlooCacheBackend {
+  private entries = new Map<string, QlooCacheEntry>();
+
+  constructor(private maxEntries = 500) {}
+
+  async get(key: string): Promise<QlooCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: QlooCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export class QlooResponseCache {
+  private backend: QlooCacheBackend;
+  private ttls: Record<string, number>;
+  private defaultTtlMs: number;
+  private hits = 0;
+  private misses = 0;
+  private errors = 0;
+  private byEndpoint: Record<string, { hits: number; misses: number }> = {};
+
+  constructor(options: QlooCacheOptions = {}) {
+    this.backend = options.backend || new MemoryLRUCache();
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+    this.defaultTtlMs = options.defaultTtlMs ?? 10 * MINUTE;
+  }
+
+  async get(endpoint: string, params: Record<string, any>): Promise<any | undefined> {
+    const key = createRequestKey(endpoint, params);
+
+    let entry: QlooCacheEntry | undefined;
+    try {
+      entry = await this.backend.get(key);
+      if (entry && entry.expiresAt <= Date.now()) {
+        await this.backend.delete(key);
+        entry = undefined;
+      }
+    } catch (error) {
+      this.errors++;
+      logger.warn("Qloo cache read failed:", error);
+      entry = undefined;
+    }
+
+    this.record(endpoint, entry !== undefined);
+    return entry ? JSON.parse(entry.value) : undefined;
+  }
+
+  async set(endpoint: string, params: Record<string, any>, value: unknown): Promise<void> {
+    const ttl = this.ttls[endpoint] ?? this.defaultTtlMs;
+    if (ttl <= 0) {
+      return;
+    }
+
+    try {
+      await this.backend.set(createRequestKey(endpoint, params), {
+        value: JSON.stringify(value),
+        expiresAt: Date.now() + ttl
+      });
+    } catch (error) {
+      this.errors++;
+      logger.warn("Qloo cache write failed:", error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  stats(): QlooCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups ? this.hits / lookups : 0,
+      errors: this.errors,
+      byEndpoint: JSON.parse(JSON.stringify(this.byEndpoint))
+    };
+  }
+
+  private record(endpoint: string, hit: boolean) {
+    if (!this.byEndpoint[endpoint]) {
+      this.byEndpoint[endpoint] = { hits: 0, misses: 0 };
+    }
+
+    const counters = this.byEndpoint[endpoint];
+    if (hit) {
+      this.hits++;
+      counters.hits++;
+    } else {
+      this.misses++;
+      counters.misses++;
+    }
+  }
+}
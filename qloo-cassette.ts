@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { logger } from "firebase-functions";
+import type { QlooTransport } from "./qloo-client";
+
+// Record-and-replay ("cassette") support for QlooClient.
+// In record mode every response from the real transport is written to <dir>/<endpoint>-<hash>.json;
+// in replay mode responses are served from those files and the network is never touched.
+
+export type QlooCassetteMode = 'record' | 'replay';
+
+export interface QlooCassetteOptions {
+  mode: QlooCassetteMode;
+  dir: string;
+}
+
+export interface QlooCassetteEntry {
+  request: {
+    endpoint: string;
+    params: Record<string, string>;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  recordedAt: string;
+}
+
+export const DEFAULT_CASSETTE_DIR = "qloo-cassettes";
+
+// Never persisted, even if a caller passes credentials as query parameters
+const SECRET_PARAMS = new Set(['x-api-key', 'api_key', 'apikey']);
+
+// Response headers worth replaying; everything else is noise that changes per request
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+function normalizeEndpoint(endpoint: string): string {
+  return '/' + endpoint.replace(/^\/+|\/+$/g, '');
+}
+
+// Stable identity of a request: normalized endpoint plus its params sorted by name
+export function createRequestKey(endpoint: string, params: Record<string, any>): string {
+  const query = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null && !SECRET_PARAMS.has(key.toLowerCase()))
+    .sort()
+    .map(key => {
+      const value = params[key];
+      return `${key}=${Array.isArray(value) ? value.join(',') : String(value)}`;
+    })
+    .join('&');
+
+  return `${normalizeEndpoint(endpoint)}?${query}`;
+}
+
+function describeRequest(url: string): QlooCassetteEntry['request'] {
+  const parsed = new URL(url);
+  const params: Record<string, string> = {};
+  parsed.searchParams.forEach((value, key) => {
+    if (!SECRET_PARAMS.has(key.toLowerCase())) {
+      params[key] = value;
+    }
+  });
+  return { endpoint: normalizeEndpoint(parsed.pathname), params };
+}
+
+function cassettePath(dir: string, request: QlooCassetteEntry['request']): string {
+  const key = createRequestKey(request.endpoint, request.params);
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 16);
+  const slug = request.endpoint.replace(/^\//, '').replace(/[^\w]+/g, '_') || 'root';
+  return path.join(dir, `${slug}-${hash}.json`);
+}
+
+// Wrap a transport so that it records to, or replays from, a cassette directory
+export function createCassetteTransport(options: QlooCassetteOptions, transport: QlooTransport): QlooTransport {
+  if (options.mode === 'replay') {
+    return async (url) => {
+      const request = describeRequest(url);
+      const file = cassettePath(options.dir, request);
+
+      let entry: QlooCassetteEntry;
+      try {
+        entry = JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch {
+        logger.warn(`No recorded Qloo response for ${createRequestKey(request.endpoint, request.params)} (${file})`);
+        return new Response(JSON.stringify({ error: { message: `No cassette recorded for ${request.endpoint}` } }), {
+          status: 404,
+          statusText: 'Not Recorded',
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { status, statusText, headers, body } = entry.response;
+      return new Response(body, { status, statusText, headers });
+    };
+  }
+
+  return async (url, init) => {
+    const response = await transport(url, init);
+    const body = await response.text();
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+
+    const request = describeRequest(url);
+    const entry: QlooCassetteEntry = {
+      request,
+      response: { status: response.status, statusText: response.statusText, headers, body },
+      recordedAt: new Date().toISOString()
+    };
+
+    await fs.mkdir(options.dir, { recursive: true });
+    await fs.writeFile(cassettePath(options.dir, request), JSON.stringify(entry, null, 2));
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers });
+  };
+}
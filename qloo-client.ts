@@ -1,37 +1,83 @@
 import { logger } from "firebase-functions";
+import {
+  QlooAbortError,
+  QlooAuthError,
+  QlooForbiddenError,
+  QlooMalformedResponseError,
+  QlooNetworkError,
+  QlooRateLimitError,
+  QlooResponseValidationError,
+  QlooServerError,
+  QlooTimeoutError,
+  QlooValidationError,
+  createQlooHttpError,
+  parseErrorBody,
+  redactUrl
+} from "./qloo-errors";
+import { QlooCassetteOptions, createCassetteTransport } from "./qloo-cassette";
+import { QlooCacheOptions, QlooCacheStats, QlooResponseCache } from "./qloo-cache";
+import { QlooRateLimiter, QlooRateLimiterStats, sharedRateLimiter } from "./qloo-rate-limiter";
+import {
+  AudiencesResponseSchema,
+  CompareResponseSchema,
+  EntitiesResponseSchema,
+  HeatmapResponseSchema,
+  InsightsResponseSchema,
+  QlooValidationMode,
+  SearchResponseSchema,
+  TagsResponseSchema,
+  TrendsResponseSchema,
+  describeIssues
+} from "./qloo-schemas";
+import { ENTITY_TYPES, QlooEntity, parseEntity } from "./qloo-entities";
+import {
+  GeoPoint,
+  GeoPolygon,
+  GeoShape,
+  QlooGeoError,
+  QlooRadius,
+  parseGeoShape,
+  shapeCenter,
+  toLatLon,
+  toMeters,
+  toWkt,
+  toWktPoint,
+  tryParseGeoShape,
+  withDistances
+} from "./qloo-geo";
+import { Gazetteer, GazetteerResolution, gazetteer as defaultGazetteer } from "./qloo-gazetteer";
+import { QlooHeatmap, QlooHeatmapBoundary, parseHeatmapCell } from "./qloo-heatmap";
+import { describeContributions, nameContributions, topContribution } from "./qloo-explainability";
+import { InterestResolver, ResolvedInterest, confidentEntities } from "./qloo-interest-resolver";
+import { GoalTaxonomy, goalTaxonomy } from "./qloo-taxonomy";
+import { QlooFeedbackSignals, QlooWeightedEntity, applyFeedback } from "./qloo-feedback";
+import { ScheduledRecommendation, narrowPriceLevel, planFromContext, recommendationsPerPhase, scheduleAcross } from "./qloo-project-plan";
+import type { z } from "genkit";
+
+export * from "./qloo-errors";
+export * from "./qloo-cache";
+export * from "./qloo-rate-limiter";
+export * from "./qloo-schemas";
+export * from "./qloo-entities";
+export * from "./qloo-geo";
+export * from "./qloo-gazetteer";
+export * from "./qloo-heatmap";
+export * from "./qloo-explainability";
+export * from "./qloo-interest-resolver";
+export * from "./qloo-project-plan";
+export * from "./qloo-taxonomy";
+export * from "./qloo-profile-store";
+export * from "./qloo-feedback";
 
 // Qloo API Configuration
-const QLOO_BASE_URL = "https://hackathon.api.qloo.com";
+const QLOO_BASE_URL = process.env.QLOO_BASE_URL || "https://hackathon.api.qloo.com";
 const QLOO_API_KEY = process.env.QLOO_API_KEY;
 
-
-// Entity Types supported by Qloo
-export const ENTITY_TYPES = {
-  ARTIST: "urn:entity:artist",
-  BOOK: "urn:entity:book", 
-  BRAND: "urn:entity:brand",
-  DESTINATION: "urn:entity:destination",
-  MOVIE: "urn:entity:movie",
-  PERSON: "urn:entity:person",
-  PLACE: "urn:entity:place",
-  PODCAST: "urn:entity:podcast",
-  TV_SHOW: "urn:entity:tv_show",
-  VIDEO_GAME: "urn:entity:video_game"
-} as const;
-
 // Types for our integration
-export interface QlooEntity {
-  id: string;
-  name: string;
-  type: string;
-  affinity?: number;
-  properties?: any;
-}
-
 export interface QlooInsightResponse {
   results: QlooEntity[];
   query: {
-    explainability?: any;
+    explainability?: any; // Request-level payload; per-result contributions are parsed into each entity's `explanation`
     locality?: any;
   };
   pagination?: {
@@ -41,6 +87,64 @@ export interface QlooInsightResponse {
   };
 }
 
+export interface QlooTag {
+  id: string;
+  name: string;
+  type?: string;
+}
+
+export interface QlooAudience {
+  id: string;
+  name: string;
+  type?: string;
+}
+
+// A tag's affinity for each side of a comparison (0 when the side does not carry it)
+export interface QlooComparedTag extends QlooTag {
+  affinityA: number;
+  affinityB: number;
+}
+
+export interface QlooTrend {
+  score: number; // 0..1, how strongly the entity is trending right now
+  velocity?: number; // Change in score over the window; negative when it is cooling off
+  window?: { start: string; end: string }; // ISO dates the trend was measured over
+}
+
+export type QlooTrendingEntity = QlooEntity & { trend: QlooTrend };
+
+// Tags that link one of the user's interests to a target domain, with examples on both sides
+export interface DomainBridge {
+  domain1: string; // The user interest
+  domain2: string; // The target domain
+  bridgingTags: QlooTag[];
+  interestEntities: QlooEntity[]; // Entities behind the interest that carry the bridging tags
+  bridgeEntities: QlooEntity[]; // Target-domain entities that carry them
+  strength: number; // 0..1, see CrossDomainDiscoveryEngine.findDomainBridges
+  insights: string[];
+}
+
+export interface QlooComparison {
+  tags: QlooComparedTag[]; // Everything either side carries, as returned by Qloo
+  entities: QlooEntity[];
+  shared: QlooComparedTag[]; // Carried by both sides, strongest common affinity first
+  distinctA: QlooComparedTag[]; // Markedly more characteristic of side A than of side B
+  distinctB: QlooComparedTag[];
+  overlap: {
+    jaccard: number; // Share of the tags that both sides carry
+    weighted: number; // Sum of min(affinityA, affinityB) over sum of max(...); 1 for identical sides
+  };
+}
+
+export interface CrossDomainConnection {
+  from: string;
+  to: string;
+  connection: QlooEntity[];
+  strength: number; // 0..1
+  sharedTags: QlooComparedTag[]; // The traits the connection rests on; empty when synthetic
+  synthetic: boolean; // Inferred without the compare endpoint because it was unavailable
+}
+
 export interface UserTasteProfile {
   interests: string[]; // Entity IDs or names
   demographics?: {
@@ -49,7 +153,7 @@ export interface UserTasteProfile {
   };
   location?: {
     query?: string;
-    coordinates?: string; // WKT POINT format
+    coordinates?: string; // WKT POINT format, see toWktPoint
   };
   preferences?: {
     priceLevel?: { min?: number; max?: number };
@@ -61,25 +165,345 @@ export interface ProjectContext {
   projectType: string;
   goalCategory: string;
   userLocation?: string;
-  timeframe?: string;
-  budget?: string;
+  timeframe?: string; // "3 months", "this weekend"; see parseTimeframe
+  budget?: string; // "moderate", "$200/month"; see parseBudget
+  startDate?: string; // ISO date relative timeframes count from; today when unset
+}
+
+export interface QlooRetryOptions {
+  maxRetries: number; // Retry budget per call, not counting the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number; // Give up instead of honoring a longer Retry-After
+  retryableStatuses: number[];
+}
+
+// Anything fetch-compatible, e.g. FakeQlooServer#fetch for offline runs
+export type QlooTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+// Accepted by every QlooClient method and engine entry point
+export interface QlooRequestOptions {
+  signal?: AbortSignal; // Cancels the request, including pending retries and rate-limit waits
+  timeoutMs?: number; // Per attempt; overrides the client default
+  feedback?: QlooFeedbackSignals; // Folded into every insights call made with these options (see applyFeedback)
+}
+
+export interface QlooSearchOptions {
+  location?: string | GeoPoint; // "lat,lon", WKT POINT, a GeoPoint or a place name known to the gazetteer
+  radius?: QlooRadius;
+  take?: number;
+  page?: number;
+}
+
+// Inclusive bounds; either side may be left open
+export interface QlooRange<T = number> {
+  min?: T;
+  max?: T;
+}
+
+export interface QlooInsightsOptions {
+  filterType: string;
+  signals?: {
+    entities?: string[];
+    weightedEntities?: QlooWeightedEntity[]; // Sent alongside `entities`, which count as weight 1
+    tags?: string[];
+    demographics?: {
+      age?: string;
+      gender?: string;
+      audiences?: string[];
+    };
+    location?: {
+      query?: string;
+      coordinates?: string | GeoPoint; // "lat,lon", WKT POINT or WKT POLYGON
+      polygon?: GeoPolygon;
+      radius?: QlooRadius;
+    };
+  };
+  filters?: {
+    location?: string; // Place name, e.g. "Brooklyn, NY"
+    area?: {
+      point?: string | GeoPoint;
+      polygon?: string | GeoPolygon;
+      radius?: QlooRadius; // Around `point`
+    };
+    tags?: string[];
+    tagsOperator?: 'union' | 'intersection'; // How multiple filter tags combine; Qloo defaults to union
+    resultEntities?: string[]; // Score only these entities, e.g. to rank search results against the signals
+    excludeEntities?: string[];
+    excludeTags?: string[];
+    priceLevel?: QlooRange;
+    popularity?: QlooRange;
+    rating?: QlooRange;
+    releaseYear?: QlooRange; // Movies, TV shows, video games
+    finaleYear?: QlooRange; // TV shows
+    publicationYear?: QlooRange; // Books
+    releaseDate?: QlooRange<string>; // ISO dates
+    contentRating?: string[]; // e.g. ['PG', 'PG-13']
+    geocode?: {
+      name?: string;
+      admin1Region?: string;
+      admin2Region?: string;
+      countryCode?: string;
+    };
+    external?: {
+      exists?: string[]; // Only entities listed on these services, e.g. ['resy', 'michelin']
+      resyRating?: QlooRange;
+      tripadvisorRating?: QlooRange;
+      tripadvisorRatingCount?: QlooRange;
+    };
+  };
+  bias?: {
+    trends?: 'off' | 'low' | 'medium' | 'high'; // Boost entities that are trending right now
+  };
+  diversify?: {
+    by: string; // Property path to spread results across, e.g. 'properties.geocode.city'
+    take: number; // Max results per distinct value
+  };
+  sortBy?: 'affinity' | 'distance';
+  origin?: string | GeoPoint; // Where distanceMeters is measured from; defaults to the signal or filter point
+  take?: number;
+  page?: number;
+  explainability?: boolean;
+}
+
+// Heatmaps score places, so the entity type is fixed and list-only options don't apply
+export type QlooHeatmapOptions = Omit<QlooInsightsOptions, 'filterType' | 'diversify' | 'sortBy' | 'origin' | 'explainability'> & {
+  boundary?: QlooHeatmapBoundary; // 'geohashes' (default) or aggregate per city / neighborhood
+};
+
+export interface QlooTagSearchOptions {
+  tagTypes?: string[];
+  take?: number;
+  page?: number;
+}
+
+export interface QlooAudienceOptions {
+  audienceTypes?: string[];
+  take?: number;
+  page?: number;
+}
+
+// For the iterate* methods: `take` is the page size, `maxResults` caps the total across pages
+export interface QlooPaginationOptions {
+  take?: number;
+  startPage?: number;
+  maxResults?: number;
+}
+
+export interface QlooClientOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  fetch?: QlooTransport;
+  timeoutMs?: number; // Default per-attempt timeout, 15 seconds unless set
+  retry?: Partial<QlooRetryOptions>;
+  cassette?: QlooCassetteOptions; // Record responses to, or replay them from, a directory
+  cache?: QlooCacheOptions | false; // In-memory LRU by default; false disables caching
+  rateLimiter?: QlooRateLimiter | false; // Defaults to sharedRateLimiter; false disables throttling
+  validation?: QlooValidationMode; // 'lenient' (log schema drift) unless set; 'strict' throws
+  gazetteer?: Gazetteer | false; // Resolves place names for /search; defaults to the bundled one
+}
+
+const DEFAULT_RETRY_OPTIONS: QlooRetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504]
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Upper bound on IDs per /entities request, keeping URLs well under common length limits
+const MAX_ENTITY_IDS_PER_REQUEST = 25;
+
+// Resolves early when the signal aborts; callers check the signal afterwards
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+// Best gazetteer match for a place name; ambiguous names still resolve, but say which alternatives were passed over
+function resolvePlaceName(places: Gazetteer, query: string): GeoPoint | undefined {
+  const resolution: GazetteerResolution = places.resolve(query);
+  if (resolution.ambiguous) {
+    logger.warn(`Location "${query}" is ambiguous, using ${resolution.best!.label} over ${resolution.candidates.slice(1).map(c => c.label).join(' / ')}`);
+  }
+  return resolution.best?.point;
+}
+
+// Adds `<key>.min` / `<key>.max` for whichever bounds are set
+function addRange(params: Record<string, any>, key: string, range?: QlooRange<number | string>) {
+  if (range?.min !== undefined) {
+    params[`${key}.min`] = range.min;
+  }
+  if (range?.max !== undefined) {
+    params[`${key}.max`] = range.max;
+  }
+}
+
+// A tag counts as shared when both sides carry it at least this strongly,
+// and as distinct to one side when that side's affinity leads by at least the margin
+const SHARED_TAG_MIN_AFFINITY = 0.1;
+const DISTINCT_TAG_MARGIN = 0.3;
+
+function summarizeComparison(tags: QlooComparedTag[], entities: QlooEntity[]): QlooComparison {
+  const byStrength = (score: (tag: QlooComparedTag) => number) =>
+    (a: QlooComparedTag, b: QlooComparedTag) => score(b) - score(a);
+
+  const shared = tags
+    .filter(tag => Math.min(tag.affinityA, tag.affinityB) >= SHARED_TAG_MIN_AFFINITY)
+    .sort(byStrength(tag => Math.min(tag.affinityA, tag.affinityB)));
+  const distinctA = tags
+    .filter(tag => tag.affinityA - tag.affinityB >= DISTINCT_TAG_MARGIN)
+    .sort(byStrength(tag => tag.affinityA - tag.affinityB));
+  const distinctB = tags
+    .filter(tag => tag.affinityB - tag.affinityA >= DISTINCT_TAG_MARGIN)
+    .sort(byStrength(tag => tag.affinityB - tag.affinityA));
+
+  const carried = tags.filter(tag => tag.affinityA > 0 || tag.affinityB > 0);
+  const minSum = carried.reduce((sum, tag) => sum + Math.min(tag.affinityA, tag.affinityB), 0);
+  const maxSum = carried.reduce((sum, tag) => sum + Math.max(tag.affinityA, tag.affinityB), 0);
+
+  return {
+    tags,
+    entities,
+    shared,
+    distinctA,
+    distinctB,
+    overlap: {
+      jaccard: carried.length ? round(shared.length / carried.length) : 0,
+      weighted: maxSum ? round(minSum / maxSum) : 0
+    }
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Resolved interests as insights signals; search returns tags as well as entities and Qloo wants them apart
+function toInterestSignals(entities: QlooEntity[], limit = 5): { entities: string[]; tags: string[] } {
+  return {
+    entities: entities.filter(e => !e.type.startsWith('urn:tag')).slice(0, limit).map(e => e.id),
+    tags: entities.filter(e => e.type.startsWith('urn:tag')).slice(0, limit).map(e => e.id)
+  };
+}
+
+function hasTag(entity: QlooEntity, tagId: string): boolean {
+  return entity.tags?.some(tag => tag.id === tagId) || false;
 }
 
 // Core Qloo API Client
 export class QlooClient {
   private baseUrl: string;
   private apiKey: string;
+  private transport: QlooTransport;
+  private retryOptions: QlooRetryOptions;
+  private timeoutMs: number;
+  private cache?: QlooResponseCache;
+  private rateLimiter?: QlooRateLimiter;
+  private validation: QlooValidationMode;
+  private gazetteer?: Gazetteer;
+
+  constructor(options: string | QlooClientOptions = {}) {
+    // Accept a bare API key for backwards compatibility
+    const clientOptions: QlooClientOptions = typeof options === 'string' ? { apiKey: options } : options;
+
+    this.baseUrl = clientOptions.baseUrl || QLOO_BASE_URL;
+    this.apiKey = clientOptions.apiKey || QLOO_API_KEY || "";
+    const transport: QlooTransport = clientOptions.fetch || ((url, init) => fetch(url, init));
+    this.transport = clientOptions.cassette
+      ? createCassetteTransport(clientOptions.cassette, transport)
+      : transport;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...clientOptions.retry };
+    this.timeoutMs = clientOptions.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.validation = clientOptions.validation || 'lenient';
+    this.gazetteer = clientOptions.gazetteer === false ? undefined : clientOptions.gazetteer || defaultGazetteer;
+
+    if (clientOptions.cache !== false) {
+      this.cache = new QlooResponseCache(clientOptions.cache);
+    }
 
-  constructor(apiKey?: string) {
-    this.baseUrl = QLOO_BASE_URL;
-    this.apiKey = apiKey || QLOO_API_KEY || "";
+    if (clientOptions.rateLimiter !== false) {
+      this.rateLimiter = clientOptions.rateLimiter || sharedRateLimiter;
+    }
     
-    if (!this.apiKey) {
+    if (!this.apiKey && clientOptions.cassette?.mode !== 'replay') {
       logger.warn("Qloo API key not found. Set QLOO_API_KEY environment variable.");
     }
   }
 
-  private async makeRequest(endpoint: string, params: Record<string, any> = {}): Promise<any> {
+  getCacheStats(): QlooCacheStats | undefined {
+    return this.cache?.stats();
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  getRateLimiterStats(): QlooRateLimiterStats | undefined {
+    return this.rateLimiter?.stats();
+  }
+
+  // Responses are validated once, before they are cached
+  private async makeRequest<T>(
+    endpoint: string,
+    params: Record<string, any>,
+    requestOptions: QlooRequestOptions,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): Promise<T> {
+    const cached = await this.cache?.get(endpoint, params);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = this.validateResponse(endpoint, params, schema, await this.fetchWithRetry(endpoint, params, requestOptions));
+    await this.cache?.set(endpoint, params, response);
+    return response;
+  }
+
+  // In lenient mode a response that fails validation is still returned as-is, so the
+  // transforms below keep their defensive fallbacks for missing fields
+  private validateResponse<T>(
+    endpoint: string,
+    params: Record<string, any>,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    response: unknown
+  ): T {
+    if (this.validation === 'off') {
+      return response as T;
+    }
+
+    const result = schema.safeParse(response);
+    if (result.success) {
+      return response as T;
+    }
+
+    const issues = describeIssues(result.error);
+    const summary = issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+
+    if (this.validation === 'strict') {
+      throw new QlooResponseValidationError(`Qloo API response for ${endpoint} does not match the expected schema: ${summary}`, {
+        url: redactUrl(this.buildUrl(endpoint, params)),
+        body: response,
+        endpoint,
+        issues
+      });
+    }
+
+    logger.warn(`Qloo API response for ${endpoint} drifted from the expected schema (${issues.length} issues): ${summary}`);
+    return response as T;
+  }
+
+  private buildUrl(endpoint: string, params: Record<string, any>): URL {
     const url = new URL(endpoint, this.baseUrl);
     
     // Add query parameters
@@ -93,37 +517,159 @@ export class QlooClient {
       }
     });
 
-    try {
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'x-api-key': this.apiKey,
-          'Content-Type': 'application/json',
-        },
-      });
+    return url;
+  }
+
+  private async fetchWithRetry(
+    endpoint: string,
+    params: Record<string, any>,
+    requestOptions: QlooRequestOptions
+  ): Promise<unknown> {
+    const url = this.buildUrl(endpoint, params);
+
+    // Every Qloo endpoint we call is an idempotent GET, so any attempt can safely be retried
+    const { maxRetries, retryableStatuses } = this.retryOptions;
+    const { signal } = requestOptions;
+    const timeoutMs = requestOptions.timeoutMs ?? this.timeoutMs;
+    const requestUrl = redactUrl(url);
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw new QlooAbortError(`Qloo request to ${endpoint} was cancelled`, { url: requestUrl, cause: signal.reason });
+      }
+
+      let response: Response;
+      let text: string;
+      let timedOut = false;
+
+      try {
+        // Each attempt, retries included, draws from the rate limit; cache hits never reach here.
+        // The timeout starts once the limiter lets the request go and also covers reading the body.
+        const send = async () => {
+          const controller = new AbortController();
+          const abort = () => controller.abort(signal?.reason);
+          const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs);
+          signal?.addEventListener('abort', abort, { once: true });
+
+          try {
+            const res = await this.transport(url.toString(), {
+              method: 'GET',
+              headers: {
+                'x-api-key': this.apiKey,
+                'Content-Type': 'application/json',
+              },
+              signal: controller.signal,
+            });
+            return { res, body: await res.text() };
+          } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', abort);
+          }
+        };
+
+        const result = await (this.rateLimiter ? this.rateLimiter.schedule(send, signal) : send());
+        response = result.res;
+        text = result.body;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new QlooAbortError(`Qloo request to ${endpoint} was cancelled`, { url: requestUrl, cause: error });
+        }
+
+        if (attempt < maxRetries) {
+          const delay = this.getBackoffDelay(attempt);
+          logger.warn(`Qloo API request ${timedOut ? 'timed out' : 'failed'}, retrying in ${delay}ms (${attempt + 1}/${maxRetries}):`, error);
+          await sleep(delay, signal);
+          continue;
+        }
+
+        logger.error("Qloo API request error:", error);
+        if (timedOut) {
+          throw new QlooTimeoutError(`Qloo API request timed out after ${timeoutMs}ms`, { url: requestUrl, cause: error });
+        }
+        throw new QlooNetworkError(`Qloo API request failed: ${error}`, { url: requestUrl, cause: error });
+      }
 
       if (!response.ok) {
-        const errorBody = await response.text();
+        const errorBody = parseErrorBody(text);
+        const retryAfterMs = this.parseRetryAfter(response);
+
+        if (attempt < maxRetries && retryableStatuses.includes(response.status)) {
+          const delay = this.getRetryDelay(retryAfterMs, attempt);
+          if (delay !== null) {
+            logger.warn(`Qloo API ${response.status} on ${endpoint}, retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+            await sleep(delay, signal);
+            continue;
+          }
+        }
+
         logger.error(`Qloo API Error: ${response.status} ${response.statusText}`);
-        logger.error(`Request URL: ${url.toString()}`);
-        logger.error(`Error Body: ${errorBody}`);
-        throw new Error(`Qloo API error: ${response.status} ${response.statusText} - ${errorBody}`);
+        logger.error(`Request URL: ${requestUrl}`);
+        logger.error("Error Body:", errorBody);
+        throw createQlooHttpError({
+          status: response.status,
+          statusText: response.statusText,
+          url: requestUrl,
+          body: errorBody,
+          params,
+          retryAfterMs
+        });
       }
 
-      return await response.json();
-    } catch (error) {
-      logger.error("Qloo API request error:", error);
-      throw error;
+      try {
+        return JSON.parse(text);
+      } catch (error) {
+        throw new QlooMalformedResponseError(`Qloo API returned invalid JSON for ${endpoint}`, {
+          url: requestUrl,
+          status: response.status,
+          body: text,
+          cause: error
+        });
+      }
     }
   }
 
+  // Exponential backoff with full jitter: a random delay in [0, min(maxDelay, base * 2^attempt)]
+  private getBackoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryOptions;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  // Retry-After may be given in seconds or as an HTTP date
+  private parseRetryAfter(response: Response): number | undefined {
+    const retryAfter = response.headers.get('retry-after');
+    if (!retryAfter) {
+      return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds)
+      ? seconds * 1000
+      : new Date(retryAfter).getTime() - Date.now();
+
+    return Number.isNaN(delay) ? undefined : Math.max(0, Math.round(delay));
+  }
+
+  // Prefer the server's Retry-After over our own backoff.
+  // Returns null when the server asks us to wait longer than we are willing to.
+  private getRetryDelay(retryAfterMs: number | undefined, attempt: number): number | null {
+    if (retryAfterMs === undefined) {
+      return this.getBackoffDelay(attempt);
+    }
+
+    if (retryAfterMs > this.retryOptions.maxRetryAfterMs) {
+      logger.warn(`Qloo API asked to retry after ${retryAfterMs}ms, which exceeds the retry budget`);
+      return null;
+    }
+
+    return retryAfterMs;
+  }
+
   // Search for entities by name
-  async searchEntities(query: string, types?: string[], options: {
-    location?: string;
-    radius?: number;
-    take?: number;
-    page?: number;
-  } = {}): Promise<QlooEntity[]> {
+  async searchEntities(query: string, types?: string[], options: QlooSearchOptions & QlooRequestOptions = {}): Promise<QlooEntity[]> {
     const params: Record<string, any> = {
       query,
       take: options.take || 20,
@@ -134,65 +680,125 @@ export class QlooClient {
       params.types = types;
     }
 
-    // For the search endpoint, location should be coordinates (lat,lon) not city names
-    // Skip location filter for basic search to avoid issues
-    if (options.location && this.isCoordinates(options.location)) {
-      params['filter.location'] = options.location;
+    // The search endpoint only understands coordinates (lat,lon), so place names go through the gazetteer
+    let origin: GeoPoint | undefined;
+    if (options.location) {
+      const shape = tryParseGeoShape(options.location);
+      if (shape?.kind === 'point') {
+        origin = shape.point;
+      } else if (typeof options.location === 'string' && this.gazetteer) {
+        origin = resolvePlaceName(this.gazetteer, options.location);
+      }
+
+      if (origin) {
+        params['filter.location'] = toLatLon(origin);
+      } else {
+        logger.warn(`Ignoring search location "${options.location}": /search needs coordinates (lat,lon or WKT POINT) or a known place name`);
+      }
     }
 
     if (options.radius) {
-      params['filter.radius'] = options.radius;
+      params['filter.radius'] = toMeters(options.radius);
     }
 
-    const response = await this.makeRequest('/search', params);
+    const response = await this.makeRequest('/search', params, options, SearchResponseSchema);
     
     // Transform API response to match our interface
-    const results = (response.results || []).map((item: any) => ({
-      id: item.entity_id,
-      name: item.name,
-      type: item.types?.[0] || 'unknown', // Take first type from array
-      affinity: item.affinity,
-      properties: item.properties
-    }));
-    
-    return results;
+    const results = (response.results || []).map(parseEntity);
+    return origin ? withDistances(results, origin) : results;
   }
 
-  // Helper method to check if string looks like coordinates
-  private isCoordinates(location: string): boolean {
-    // Check if location matches lat,lon format (e.g., "40.726408,-73.994275")
-    const coordPattern = /^-?\d+\.?\d*,-?\d+\.?\d*$/;
-    return coordPattern.test(location);
+  // Fetch full entity records by Qloo ID, e.g. to refresh entities saved from earlier results.
+  // Entities are cached one by one, so overlapping batches only fetch the IDs not seen yet.
+  // Results follow the order of `ids`; unknown IDs are left out.
+  async getEntities(ids: string[], options: QlooRequestOptions = {}): Promise<QlooEntity[]> {
+    const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+    const found = new Map<string, QlooEntity>();
+    const missing: string[] = [];
+
+    for (const id of uniqueIds) {
+      const cached = await this.cache?.get('/entities', { entity_ids: id });
+      if (cached !== undefined) {
+        found.set(id, cached);
+      } else {
+        missing.push(id);
+      }
+    }
+
+    const batches: string[][] = [];
+    for (let i = 0; i < missing.length; i += MAX_ENTITY_IDS_PER_REQUEST) {
+      batches.push(missing.slice(i, i + MAX_ENTITY_IDS_PER_REQUEST));
+    }
+
+    await Promise.all(batches.map(async batch => {
+      const params = { entity_ids: batch };
+      const response = this.validateResponse(
+        '/entities',
+        params,
+        EntitiesResponseSchema,
+        await this.fetchWithRetry('/entities', params, options)
+      );
+
+      const items = Array.isArray(response.results) ? response.results : response.results?.entities || [];
+      for (const item of items) {
+        const entity = parseEntity(item);
+        found.set(entity.id, entity);
+        await this.cache?.set('/entities', { entity_ids: entity.id }, entity);
+      }
+    }));
+
+    const missingIds = uniqueIds.filter(id => !found.has(id));
+    if (missingIds.length) {
+      logger.warn(`Qloo returned no entity for ${missingIds.length} of ${uniqueIds.length} IDs: ${missingIds.join(', ')}`);
+    }
+
+    return uniqueIds.filter(id => found.has(id)).map(id => found.get(id)!);
   }
 
   // Get insights based on user preferences
-  async getInsights(options: {
-    filterType: string;
-    signals?: {
-      entities?: string[];
-      tags?: string[];
-      demographics?: {
-        age?: string;
-        gender?: string;
-        audiences?: string[];
-      };
-      location?: {
-        query?: string;
-        coordinates?: string;
-        radius?: number;
-      };
-    };
-    filters?: {
-      location?: string;
-      tags?: string[];
-      priceLevel?: { min?: number; max?: number };
-      popularity?: { min?: number; max?: number };
-      rating?: { min?: number; max?: number };
+  async getInsights(options: QlooInsightsOptions & QlooRequestOptions): Promise<QlooInsightResponse> {
+    const params = this.buildInsightsParams(options);
+    const response = await this.makeRequest('/v2/insights', params, options, InsightsResponseSchema);
+    
+    // Transform results to match our interface
+    // The insights API returns results.entities, not results directly
+    const entities = Array.isArray(response.results?.entities) ? response.results.entities : [];
+    const results = entities.map(parseEntity);
+    const origin = this.resolveOrigin(options);
+    return {
+      ...response,
+      query: response.query || {},
+      pagination: {
+        page: params.page,
+        take: params.take,
+        total: response.pagination?.total
+      },
+      results: origin ? withDistances(results, origin) : results
     };
-    take?: number;
-    page?: number;
-    explainability?: boolean;
-  }): Promise<QlooInsightResponse> {
+  }
+
+  // Score a region by taste instead of listing venues: where in the area do the signals cluster?
+  async getHeatmap(options: QlooHeatmapOptions & QlooRequestOptions): Promise<QlooHeatmap> {
+    if (!options.filters?.location && !options.filters?.area && !options.signals?.location) {
+      throw new QlooGeoError('A heatmap needs a region: set filters.location, filters.area or signals.location');
+    }
+
+    const boundary = options.boundary || 'geohashes';
+    const params = this.buildInsightsParams({ ...options, filterType: 'urn:heatmap' });
+    if (boundary !== 'geohashes') {
+      params['output.heatmap.boundary'] = boundary;
+    }
+
+    const response = await this.makeRequest('/v2/insights', params, options, HeatmapResponseSchema);
+    const cells = (response.results?.heatmap || [])
+      .map(parseHeatmapCell)
+      .sort((a, b) => b.affinity - a.affinity);
+    return { boundary, cells };
+  }
+
+  // Translate typed insights options into Qloo query parameters
+  private buildInsightsParams(requested: QlooInsightsOptions & QlooRequestOptions): Record<string, any> {
+    const options = applyFeedback(requested, requested.feedback);
     const params: Record<string, any> = {
       'filter.type': options.filterType,
       take: options.take || 20,
@@ -201,9 +807,15 @@ export class QlooClient {
 
     // Add signals
     if (options.signals) {
-      const { entities, tags, demographics, location } = options.signals;
+      const { entities, weightedEntities, tags, demographics, location } = options.signals;
       
-      if (entities?.length) {
+      if (weightedEntities?.length) {
+        // Weighted signals need Qloo's object form, so plain entities go along as weight 1
+        params['signal.interests.entities'] = JSON.stringify([
+          ...(entities || []).map(id => ({ entity: id, weight: 1 })),
+          ...weightedEntities.map(({ id, weight }) => ({ entity: id, weight }))
+        ]);
+      } else if (entities?.length) {
         params['signal.interests.entities'] = entities;
       }
       
@@ -228,87 +840,124 @@ export class QlooClient {
       }
       
       if (location) {
+        const geometry = location.polygon || location.coordinates;
         if (location.query) {
           params['signal.location.query'] = location.query;
-        } else if (location.coordinates) {
-          params['signal.location'] = location.coordinates;
+        } else if (geometry) {
+          params['signal.location'] = toWkt(parseGeoShape(geometry));
         }
         if (location.radius) {
-          params['signal.location.radius'] = location.radius;
+          params['signal.location.radius'] = toMeters(location.radius);
         }
       }
     }
 
     // Add filters
     if (options.filters) {
-      const { location, tags, priceLevel, popularity, rating } = options.filters;
+      const { location, area, tags, tagsOperator, resultEntities, excludeEntities, excludeTags, contentRating, geocode, external } = options.filters;
       
       if (location) {
         params['filter.location.query'] = location;
       }
+
+      if (area?.polygon) {
+        params['filter.location'] = toWkt(parseGeoShape(area.polygon));
+      } else if (area?.point) {
+        params['filter.location'] = toWkt(parseGeoShape(area.point));
+        if (area.radius) {
+          params['filter.location.radius'] = toMeters(area.radius);
+        }
+      }
       
       if (tags?.length) {
         params['filter.tags'] = tags;
-      }
-      
-      if (priceLevel) {
-        if (priceLevel.min !== undefined) {
-          params['filter.price_level.min'] = priceLevel.min;
-        }
-        if (priceLevel.max !== undefined) {
-          params['filter.price_level.max'] = priceLevel.max;
+        if (tagsOperator) {
+          params['operator.filter.tags'] = tagsOperator;
         }
       }
-      
-      if (popularity) {
-        if (popularity.min !== undefined) {
-          params['filter.popularity.min'] = popularity.min;
-        }
-        if (popularity.max !== undefined) {
-          params['filter.popularity.max'] = popularity.max;
-        }
+
+      if (resultEntities?.length) {
+        params['filter.results.entities'] = resultEntities;
+      }
+
+      if (excludeEntities?.length) {
+        params['filter.exclude.entities'] = excludeEntities;
+      }
+
+      if (excludeTags?.length) {
+        params['filter.exclude.tags'] = excludeTags;
       }
       
-      if (rating) {
-        if (rating.min !== undefined) {
-          params['filter.rating.min'] = rating.min;
-        }
-        if (rating.max !== undefined) {
-          params['filter.rating.max'] = rating.max;
+      addRange(params, 'filter.price_level', options.filters.priceLevel);
+      addRange(params, 'filter.popularity', options.filters.popularity);
+      addRange(params, 'filter.rating', options.filters.rating);
+      addRange(params, 'filter.release_year', options.filters.releaseYear);
+      addRange(params, 'filter.finale_year', options.filters.finaleYear);
+      addRange(params, 'filter.publication_year', options.filters.publicationYear);
+      addRange(params, 'filter.release_date', options.filters.releaseDate);
+
+      if (contentRating?.length) {
+        params['filter.content_rating'] = contentRating;
+      }
+
+      if (geocode) {
+        params['filter.geocode.name'] = geocode.name;
+        params['filter.geocode.admin1_region'] = geocode.admin1Region;
+        params['filter.geocode.admin2_region'] = geocode.admin2Region;
+        params['filter.geocode.country_code'] = geocode.countryCode;
+      }
+
+      if (external) {
+        if (external.exists?.length) {
+          params['filter.external.exists'] = external.exists;
         }
+        addRange(params, 'filter.external.resy.rating', external.resyRating);
+        addRange(params, 'filter.external.tripadvisor.rating', external.tripadvisorRating);
+        addRange(params, 'filter.external.tripadvisor.rating_count', external.tripadvisorRatingCount);
       }
     }
 
+    if (options.bias?.trends) {
+      params['bias.trends'] = options.bias.trends;
+    }
+
+    if (options.diversify) {
+      params['diversify.by'] = options.diversify.by;
+      params['diversify.take'] = options.diversify.take;
+    }
+
+    if (options.sortBy) {
+      params['sort_by'] = options.sortBy;
+    }
+
     if (options.explainability) {
       params['feature.explainability'] = true;
     }
 
-    const response = await this.makeRequest('/v2/insights', params);
-    
-    // Transform results to match our interface
-    // The insights API returns results.entities, not results directly
-    if (response.results && response.results.entities && Array.isArray(response.results.entities)) {
-      response.results = response.results.entities.map((item: any) => ({
-        id: item.entity_id || item.id,
-        name: item.name,
-        type: item.subtype || item.type || 'unknown', // Use subtype for insights API
-        affinity: item.query?.affinity || item.affinity,
-        properties: item.properties
-      }));
-    } else {
-      // If results is not in expected format, set to empty array
-      response.results = [];
+    return params;
+  }
+
+  // The point distances are measured from: explicit origin, else the signal location, else the filter area
+  private resolveOrigin(options: QlooInsightsOptions): GeoPoint | undefined {
+    const candidates: Array<string | GeoPoint | GeoPolygon | undefined> = [
+      options.origin,
+      options.signals?.location?.coordinates,
+      options.signals?.location?.polygon,
+      options.filters?.area?.point,
+      options.filters?.area?.polygon
+    ];
+
+    for (const candidate of candidates) {
+      const shape: GeoShape | null = candidate ? tryParseGeoShape(candidate) : null;
+      if (shape) {
+        return shapeCenter(shape);
+      }
     }
-    
-    return response;
+    return undefined;
   }
 
   // Search for tags
-  async searchTags(query?: string, options: {
-    tagTypes?: string[];
-    take?: number;
-    page?: number;
-  } = {}): Promise<any[]> {
+  async searchTags(query?: string, options: QlooTagSearchOptions & QlooRequestOptions = {}): Promise<QlooTag[]> {
     const params: Record<string, any> = {
       take: options.take || 20,
       page: options.page || 1,
@@ -322,16 +971,18 @@ export class QlooClient {
       params['filter.tag.types'] = options.tagTypes;
     }
 
-    const response = await this.makeRequest('/v2/tags', params);
-    return response.results || [];
+    const response = await this.makeRequest('/v2/tags', params, options, TagsResponseSchema);
+    // v2 endpoints nest the list under results.tags
+    const tags = Array.isArray(response.results) ? response.results : response.results?.tags || [];
+    return tags.map(tag => ({
+      id: tag.id || tag.tag_id || '',
+      name: tag.name,
+      type: tag.type || tag.subtype
+    }));
   }
 
   // Find audiences
-  async findAudiences(options: {
-    audienceTypes?: string[];
-    take?: number;
-    page?: number;
-  } = {}): Promise<any[]> {
+  async findAudiences(options: QlooAudienceOptions & QlooRequestOptions = {}): Promise<QlooAudience[]> {
     const params: Record<string, any> = {
       take: options.take || 20,
       page: options.page || 1,
@@ -341,8 +992,68 @@ export class QlooClient {
       params['filter.audience.types'] = options.audienceTypes;
     }
 
-    const response = await this.makeRequest('/v2/audiences', params);
-    return response.results || [];
+    const response = await this.makeRequest('/v2/audiences', params, options, AudiencesResponseSchema);
+    const audiences = Array.isArray(response.results) ? response.results : response.results?.audiences || [];
+    return audiences.map(audience => ({
+      id: audience.id || audience.entity_id || '',
+      name: audience.name,
+      type: audience.type
+    }));
+  }
+
+  // Async iterators that follow pagination until a page comes back empty or short, or
+  // maxResults is reached. Pages are fetched one at a time as the caller consumes them,
+  // through the same cache and rate limiter as single-page calls.
+  iterateSearchEntities(
+    query: string,
+    types?: string[],
+    options: Omit<QlooSearchOptions, 'take' | 'page'> & QlooPaginationOptions & QlooRequestOptions = {}
+  ): AsyncGenerator<QlooEntity> {
+    return this.paginate(options, page => this.searchEntities(query, types, page));
+  }
+
+  iterateInsights(
+    options: Omit<QlooInsightsOptions, 'take' | 'page'> & QlooPaginationOptions & QlooRequestOptions
+  ): AsyncGenerator<QlooEntity> {
+    return this.paginate(options, async page => (await this.getInsights({ ...options, ...page })).results);
+  }
+
+  iterateTags(
+    query?: string,
+    options: Omit<QlooTagSearchOptions, 'take' | 'page'> & QlooPaginationOptions & QlooRequestOptions = {}
+  ): AsyncGenerator<QlooTag> {
+    return this.paginate(options, page => this.searchTags(query, page));
+  }
+
+  iterateAudiences(
+    options: Omit<QlooAudienceOptions, 'take' | 'page'> & QlooPaginationOptions & QlooRequestOptions = {}
+  ): AsyncGenerator<QlooAudience> {
+    return this.paginate(options, page => this.findAudiences(page));
+  }
+
+  private async *paginate<O extends QlooPaginationOptions & QlooRequestOptions, T>(
+    options: O,
+    fetchPage: (pageOptions: O & { take: number; page: number }) => Promise<T[]>
+  ): AsyncGenerator<T> {
+    const take = options.take || 20;
+    const maxResults = options.maxResults ?? Infinity;
+    let yielded = 0;
+
+    for (let page = options.startPage || 1; yielded < maxResults; page++) {
+      const items = await fetchPage({ ...options, take, page });
+
+      for (const item of items) {
+        if (yielded >= maxResults) {
+          return;
+        }
+        yield item;
+        yielded++;
+      }
+
+      if (items.length < take) {
+        return;
+      }
+    }
   }
 
   // Compare two groups of entities
@@ -350,7 +1061,7 @@ export class QlooClient {
     filterType?: string[];
     take?: number;
     page?: number;
-  } = {}): Promise<any> {
+  } & QlooRequestOptions = {}): Promise<QlooComparison> {
     const params: Record<string, any> = {
       'a.signal.interests.entities': groupA,
       'b.signal.interests.entities': groupB,
@@ -362,61 +1073,155 @@ export class QlooClient {
       params['filter.type'] = options.filterType;
     }
 
-    const response = await this.makeRequest('/v2/insights/compare', params);
-    return response;
+    const response = await this.makeRequest('/v2/insights/compare', params, options, CompareResponseSchema);
+    const tags = (response.results?.tags || []).map(tag => ({
+      id: tag.id || tag.tag_id || '',
+      name: tag.name,
+      type: tag.subtype || tag.type,
+      affinityA: tag.query?.a?.affinity || 0,
+      affinityB: tag.query?.b?.affinity || 0
+    }));
+    return summarizeComparison(tags, (response.results?.entities || []).map(parseEntity));
   }
 
   // Get trending entities
   async getTrendingEntities(entityType: string, options: {
     take?: number;
     page?: number;
-  } = {}): Promise<QlooEntity[]> {
+  } & QlooRequestOptions = {}): Promise<QlooTrendingEntity[]> {
     const params: Record<string, any> = {
       type: entityType,
       take: options.take || 20,
       page: options.page || 1,
     };
 
-    const response = await this.makeRequest('/trends/category', params);
-    return response.results || [];
+    const response = await this.makeRequest('/trends/category', params, options, TrendsResponseSchema);
+    return (response.results || []).map(raw => ({
+      ...parseEntity(raw),
+      trend: {
+        score: raw.trend?.score ?? 0,
+        velocity: raw.trend?.velocity,
+        window: raw.trend?.window && { start: raw.trend.window.start, end: raw.trend.window.end }
+      }
+    }));
   }
 }
 
 // Helper Functions for the Three Core Features
 
+// Engines degrade to partial results when a single Qloo call fails, but how loudly depends on the cause.
+// Auth failures mean every later call will fail too, so they are rethrown instead of swallowed.
+// Cancellations must propagate too, so an abandoned request stops every remaining call.
+function degradeOnQlooError(error: unknown, action: string): void {
+  if (error instanceof QlooAuthError || error instanceof QlooAbortError) {
+    throw error;
+  }
+
+  if (error instanceof QlooForbiddenError) {
+    logger.warn(`Skipping ${action}: endpoint not enabled for this Qloo key`);
+  } else if (error instanceof QlooValidationError) {
+    logger.error(`Failed to ${action}: Qloo rejected parameters`, error.params);
+  } else if (error instanceof QlooRateLimitError) {
+    logger.warn(`Skipping ${action}: Qloo rate limit exhausted`);
+  } else if (error instanceof QlooNetworkError) {
+    logger.warn(`Skipping ${action}: Qloo unreachable`, error);
+  } else {
+    logger.error(`Failed to ${action}:`, error);
+  }
+}
+
+// The endpoint is there but can't answer right now (not enabled for the key, throttled, down).
+// A 404 isn't one of these: it means an unknown or stale entity ID, which should surface.
+function isQlooUnavailable(error: unknown): boolean {
+  return error instanceof QlooForbiddenError
+    || error instanceof QlooRateLimitError
+    || error instanceof QlooServerError
+    || error instanceof QlooNetworkError;
+}
+
+// Deliberately middling: a synthetic connection only says both sides resolved to entities
+const SYNTHETIC_CONNECTION_STRENGTH = 0.5;
+
+// How each project phase queries Qloo. `interests` are the user's resolved interests, `goal` the
+// entities found by searching the goal text, whose most common tags also become tag signals.
+interface ProjectPhaseConfig {
+  phase: string;
+  entityTypes: string[];
+  signals: Array<'interests' | 'goal'>;
+  goalTags?: boolean;
+  filterTags?: string[]; // Searched with searchTags, since tag URNs aren't fixed; results may have any of them
+  excludeInterests?: boolean; // Leave out what the user already likes
+  trendBias?: 'low' | 'medium' | 'high';
+  window: [number, number]; // Share of the project timeframe the phase's recommendations are scheduled over
+}
+
+const PROJECT_PHASES: ProjectPhaseConfig[] = [
+  // New places in the user's taste, leaning towards what's trending
+  { phase: 'discovery', entityTypes: [ENTITY_TYPES.PLACE], signals: ['interests'], excludeInterests: true, trendBias: 'medium', window: [0, 0.4] },
+  // Where and with what to work on the goal itself
+  { phase: 'execution', entityTypes: [ENTITY_TYPES.PLACE, ENTITY_TYPES.BRAND], signals: ['goal', 'interests'], goalTags: true, window: [0.2, 1] },
+  // Places people go to meet people
+  {
+    phase: 'community',
+    entityTypes: [ENTITY_TYPES.PLACE],
+    signals: ['interests'],
+    filterTags: ['social club', 'coworking', 'live music'],
+    window: [0.3, 1]
+  },
+  // Reading and listening around the goal
+  { phase: 'learning', entityTypes: [ENTITY_TYPES.BOOK, ENTITY_TYPES.PODCAST], signals: ['goal', 'interests'], goalTags: true, window: [0, 0.7] }
+];
+
+const MAX_ENTITIES_PER_PHASE = 10;
+
+// The tags that come up most often among the entities found for the goal
+function topTags(entities: QlooEntity[], limit = 3): string[] {
+  const counts = new Map<string, number>();
+  entities.forEach(entity => entity.tags?.forEach(tag => counts.set(tag.id, (counts.get(tag.id) || 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([id]) => id);
+}
+
 export class CulturalGoalArchitect {
-  constructor(private qloo: QlooClient) {}
+  constructor(
+    private qloo: QlooClient,
+    private taxonomy: GoalTaxonomy = goalTaxonomy,
+    private interests = new InterestResolver(qloo, taxonomy)
+  ) {}
 
   async enhanceGoalWithCulturalInsights(
     goal: string,
     userProfile: UserTasteProfile,
-    context: ProjectContext
+    context: ProjectContext,
+    options: QlooRequestOptions = {}
   ): Promise<{
+    resolvedInterests: ResolvedInterest[];
     culturalRecommendations: QlooEntity[];
     personalizedProjects: Array<{
       projectName: string;
+      phase: string;
       culturalAlignment: QlooEntity[];
       affinityScore: number;
+      schedule?: ScheduledRecommendation[];
     }>;
-    crossDomainConnections: Array<{
-      from: string;
-      to: string;
-      connection: QlooEntity[];
-      strength: number;
-    }>;
+    crossDomainConnections: CrossDomainConnection[];
   }> {
     try {
       // First, find entities related to the user's stated interests
-      const userEntities = await this.resolveUserInterests(userProfile.interests);
+      const resolvedInterests = await this.interests.resolve(userProfile.interests, {
+        ...options,
+        goalCategory: context.goalCategory
+      });
+      const userEntities = confidentEntities(resolvedInterests);
       
       // Get culturally-aligned recommendations based on goal type
-      const goalEntities = await this.getGoalRelevantEntities(goal, context);
+      const goalEntities = await this.getGoalRelevantEntities(goal, context, userEntities, options);
       
       // Find cross-domain connections
       const crossDomainConnections = await this.findCrossDomainConnections(
         userEntities,
         goalEntities,
-        context
+        context,
+        options
       );
 
       // Generate personalized projects
@@ -424,10 +1229,12 @@ export class CulturalGoalArchitect {
         goal,
         userEntities,
         goalEntities,
-        context
+        context,
+        options
       );
 
       return {
+        resolvedInterests,
         culturalRecommendations: goalEntities,
         personalizedProjects,
         crossDomainConnections
@@ -438,117 +1245,216 @@ export class CulturalGoalArchitect {
     }
   }
 
-  private async resolveUserInterests(interests: string[]): Promise<QlooEntity[]> {
-    const resolvedEntities: QlooEntity[] = [];
-    
-    for (const interest of interests) {
-      // Try to find entities matching this interest
-      const searchResults = await this.qloo.searchEntities(interest, undefined, { take: 5 });
-      resolvedEntities.push(...searchResults);
-    }
-    
-    return resolvedEntities;
-  }
-
-  private async getGoalRelevantEntities(goal: string, context: ProjectContext): Promise<QlooEntity[]> {
-    // Map goal types to relevant entity types
-    const goalEntityMapping: Record<string, string[]> = {
-      fitness: [ENTITY_TYPES.PLACE, ENTITY_TYPES.BRAND, ENTITY_TYPES.BOOK],
-      business: [ENTITY_TYPES.BRAND, ENTITY_TYPES.BOOK, ENTITY_TYPES.PERSON],
-      travel: [ENTITY_TYPES.DESTINATION, ENTITY_TYPES.PLACE, ENTITY_TYPES.BOOK],
-      learning: [ENTITY_TYPES.BOOK, ENTITY_TYPES.PODCAST, ENTITY_TYPES.PERSON],
-      creative: [ENTITY_TYPES.ARTIST, ENTITY_TYPES.BOOK, ENTITY_TYPES.MOVIE],
-      social: [ENTITY_TYPES.PLACE, ENTITY_TYPES.BRAND, ENTITY_TYPES.DESTINATION]
-    };
+  private async getGoalRelevantEntities(
+    goal: string,
+    context: ProjectContext,
+    userEntities: QlooEntity[],
+    options: QlooRequestOptions
+  ): Promise<QlooEntity[]> {
+    const relevantTypes = this.taxonomy.entityTypes(context.goalCategory);
+    const results = await Promise.all(relevantTypes.map(async entityType => {
+      const found = await this.qloo.searchEntities(goal, [entityType], { ...options, take: 10 });
+      return this.scoreAgainstInterests(found, entityType, userEntities, options);
+    }));
 
-    const relevantTypes = goalEntityMapping[context.goalCategory] || [ENTITY_TYPES.PLACE];
-    const entities: QlooEntity[] = [];
+    return results.flat();
+  }
 
-    for (const entityType of relevantTypes) {
-      const results = await this.qloo.searchEntities(goal, [entityType], { take: 10 });
-      entities.push(...results);
+  // Search results carry no affinity; score them against the user's interests, with the reasons.
+  // Unscored results are kept as-is (and last) when scoring fails.
+  private async scoreAgainstInterests(
+    entities: QlooEntity[],
+    entityType: string,
+    userEntities: QlooEntity[],
+    options: QlooRequestOptions
+  ): Promise<QlooEntity[]> {
+    if (!entities.length || !userEntities.length) {
+      return entities;
     }
 
-    return entities;
+    try {
+      const insights = await this.qloo.getInsights({
+        ...options,
+        filterType: entityType,
+        signals: toInterestSignals(userEntities),
+        filters: { resultEntities: entities.map(e => e.id) },
+        take: entities.length,
+        explainability: true
+      });
+
+      const scored = new Map(nameContributions(insights.results, userEntities).map(entity => [entity.id, entity]));
+      return entities
+        .map(entity => {
+          const match = scored.get(entity.id);
+          return match ? { ...entity, affinity: match.affinity, explanation: match.explanation } : entity;
+        })
+        .sort((a, b) => (b.affinity ?? -1) - (a.affinity ?? -1));
+    } catch (error) {
+      degradeOnQlooError(error, `score ${entityType} results against interests`);
+      return entities;
+    }
   }
 
+  // Compares what the user's interests and the goal domain's entities have in common.
+  // The synthetic connection is only a stand-in for when the compare endpoint can't be reached.
   private async findCrossDomainConnections(
     userEntities: QlooEntity[],
     goalEntities: QlooEntity[],
-    context: ProjectContext
-  ): Promise<Array<{
-    from: string;
-    to: string;
-    connection: QlooEntity[];
-    strength: number;
-  }>> {
-    const connections: Array<{
-      from: string;
-      to: string;
-      connection: QlooEntity[];
-      strength: number;
-    }> = [];
+    context: ProjectContext,
+    options: QlooRequestOptions
+  ): Promise<CrossDomainConnection[]> {
+    if (!userEntities.length || !goalEntities.length) {
+      return [];
+    }
 
-    // Skip the comparison API for now due to 403 errors in hackathon environment
-    // Instead, create a synthetic connection based on entity overlap
-    if (userEntities.length > 0 && goalEntities.length > 0) {
-      try {
-        // Create a synthetic connection based on the fact that we found related entities
-        connections.push({
-          from: "user_interests",
-          to: "goal_domain",
-          connection: goalEntities.slice(0, 5), // Use goal entities as the connection
-          strength: 0.8 // Synthetic strength based on successful entity matching
-        });
-      } catch (error) {
-        logger.warn("Cross-domain connection creation failed:", error);
+    try {
+      const comparison = await this.qloo.compareEntities(
+        userEntities.slice(0, 10).map(e => e.id),
+        goalEntities.slice(0, 10).map(e => e.id),
+        { ...options, take: 50 }
+      );
+
+      if (!comparison.shared.length) {
+        return [];
+      }
+
+      return [{
+        from: "user_interests",
+        to: context.goalCategory,
+        connection: comparison.entities.length ? comparison.entities.slice(0, 5) : goalEntities.slice(0, 5),
+        strength: comparison.overlap.weighted,
+        sharedTags: comparison.shared.slice(0, 5),
+        synthetic: false
+      }];
+    } catch (error) {
+      degradeOnQlooError(error, "compare user interests with the goal domain");
+      if (!isQlooUnavailable(error)) {
+        return [];
       }
-    }
 
-    return connections;
+      return [{
+        from: "user_interests",
+        to: context.goalCategory,
+        connection: goalEntities.slice(0, 5),
+        strength: SYNTHETIC_CONNECTION_STRENGTH,
+        sharedTags: [],
+        synthetic: true
+      }];
+    }
   }
 
   private async generateCulturallyAwareProjects(
     goal: string,
     userEntities: QlooEntity[],
     goalEntities: QlooEntity[],
-    context: ProjectContext
+    context: ProjectContext,
+    options: QlooRequestOptions
   ): Promise<Array<{
     projectName: string;
+    phase: string;
     culturalAlignment: QlooEntity[];
     affinityScore: number;
+    schedule?: ScheduledRecommendation[];
   }>> {
-    const projects: Array<{
-      projectName: string;
-      culturalAlignment: QlooEntity[];
-      affinityScore: number;
-    }> = [];
-
-    // Generate insights for different project aspects
-    const projectTypes = ['discovery', 'execution', 'community', 'learning'];
-    
-    for (const projectType of projectTypes) {
+    // Shorter timeframes get fewer recommendations per phase; the budget caps venue prices
+    const { budget, timeframe } = planFromContext(context);
+    const perPhase = recommendationsPerPhase(timeframe, MAX_ENTITIES_PER_PHASE);
+    const goalTags = topTags(goalEntities);
+    const goalTagIds = goalTags.length ? goalTags : this.taxonomy.defaultTags(context.goalCategory);
+    const interestIds = toInterestSignals(userEntities, userEntities.length).entities;
+
+    const phaseResults = await Promise.all(PROJECT_PHASES.map(async config => {
       try {
-        const insights = await this.qloo.getInsights({
-          filterType: ENTITY_TYPES.PLACE,
-          signals: {
-            entities: userEntities.slice(0, 3).map(e => e.id),
-            location: context.userLocation ? { query: context.userLocation } : undefined
-          },
-          take: 10
-        });
+        const filterTags = await this.resolveFilterTags(config, options);
+        const signalEntities = config.signals.flatMap(source => source === 'goal' ? goalEntities.slice(0, 3) : userEntities.slice(0, 3));
+        const signals = toInterestSignals(signalEntities);
+        const tags = [...signals.tags, ...(config.goalTags ? goalTagIds : [])];
+
+        const results = await Promise.all(config.entityTypes.map(async entityType => {
+          const insights = await this.qloo.getInsights({
+            ...options,
+            filterType: entityType,
+            signals: {
+              entities: signals.entities,
+              tags: tags.length ? tags : undefined,
+              location: entityType === ENTITY_TYPES.PLACE && context.userLocation ? { query: context.userLocation } : undefined
+            },
+            filters: {
+              tags: filterTags,
+              excludeEntities: config.excludeInterests && interestIds.length ? interestIds : undefined,
+              priceLevel: entityType === ENTITY_TYPES.PLACE ? budget?.priceLevel : undefined
+            },
+            bias: config.trendBias ? { trends: config.trendBias } : undefined,
+            take: perPhase + 5, // Headroom for de-duplication across phases
+            explainability: true
+          });
+          return insights.results;
+        }));
 
-        projects.push({
-          projectName: `${projectType.charAt(0).toUpperCase() + projectType.slice(1)} Project`,
-          culturalAlignment: insights.results,
-          affinityScore: this.calculateAverageAffinity(insights.results)
-        });
+        return results.flat().sort((a, b) => (b.affinity || 0) - (a.affinity || 0));
       } catch (error) {
-        logger.warn(`Failed to generate ${projectType} project:`, error);
+        degradeOnQlooError(error, `generate ${config.phase} project for "${goal}"`);
+        return null;
       }
+    }));
+
+    // Phases run concurrently; de-duplicate afterwards so each entity lands in one project only.
+    // Phases pick one entity at a time in turn, so a broad phase can't swallow a narrow one's few matches.
+    const used = new Set(userEntities.map(e => e.id));
+    const claimed = PROJECT_PHASES.map((): QlooEntity[] => []);
+    const cursors = PROJECT_PHASES.map(() => 0);
+    let picked = true;
+    while (picked) {
+      picked = false;
+      phaseResults.forEach((results, i) => {
+        if (!results || claimed[i].length === perPhase) return;
+        while (cursors[i] < results.length) {
+          const entity = results[cursors[i]++];
+          if (!used.has(entity.id)) {
+            used.add(entity.id);
+            claimed[i].push(entity);
+            picked = true;
+            return;
+          }
+        }
+      });
+    }
+
+    const projects = PROJECT_PHASES.map((config, i) => {
+      if (!phaseResults[i]) {
+        return null;
+      }
+
+      const culturalAlignment = claimed[i];
+      return {
+        projectName: `${config.phase.charAt(0).toUpperCase() + config.phase.slice(1)} Project`,
+        phase: config.phase,
+        culturalAlignment: nameContributions(culturalAlignment, [...userEntities, ...goalEntities]),
+        affinityScore: this.calculateAverageAffinity(culturalAlignment),
+        schedule: timeframe && scheduleAcross(culturalAlignment, timeframe, config.window)
+      };
+    });
+
+    return projects.filter((project): project is NonNullable<typeof project> => project !== null);
+  }
+
+  // The best place tag for each of the phase's filter terms. Terms nothing matches are left out; if
+  // none match, the phase goes unfiltered rather than empty.
+  private async resolveFilterTags(config: ProjectPhaseConfig, options: QlooRequestOptions): Promise<string[] | undefined> {
+    if (!config.filterTags) {
+      return undefined;
     }
 
-    return projects;
+    const found = await Promise.all(config.filterTags.map(async term => {
+      const tags = await this.qloo.searchTags(term, { ...options, take: 5 });
+      return (tags.find(tag => tag.id.includes(':place:')) || tags[0])?.id;
+    }));
+    const tagIds = found.filter((id): id is string => !!id);
+    if (!tagIds.length) {
+      logger.warn(`No Qloo tags found for the ${config.phase} phase (${config.filterTags.join(', ')}); leaving it unfiltered`);
+      return undefined;
+    }
+    return tagIds;
   }
 
   private calculateAverageAffinity(entities: QlooEntity[]): number {
@@ -564,18 +1470,24 @@ export class SmartProjectComponentGenerator {
   async generateComponentRecommendations(
     projectType: string,
     userProfile: UserTasteProfile,
-    context: ProjectContext
+    context: ProjectContext,
+    options: QlooRequestOptions = {}
   ): Promise<{
     venues: QlooEntity[];
     content: QlooEntity[];
     tools: QlooEntity[];
     communities: QlooEntity[];
   }> {
+    // The timeframe sizes each component list and the budget narrows the user's price preference
+    const { budget, timeframe } = planFromContext(context);
+    const priceLevel = narrowPriceLevel(userProfile.preferences?.priceLevel, budget?.priceLevel);
+    const size = (max: number) => recommendationsPerPhase(timeframe, max);
+
     const [venues, content, tools, communities] = await Promise.all([
-      this.getVenueRecommendations(projectType, userProfile, context),
-      this.getContentRecommendations(projectType, userProfile),
-      this.getToolRecommendations(projectType, userProfile),
-      this.getCommunityRecommendations(projectType, userProfile, context)
+      this.getVenueRecommendations(projectType, userProfile, context, priceLevel, size(15), options),
+      this.getContentRecommendations(projectType, userProfile, size(5), options),
+      this.getToolRecommendations(projectType, userProfile, size(10), options),
+      this.getCommunityRecommendations(projectType, userProfile, context, size(10), options)
     ]);
 
     return { venues, content, tools, communities };
@@ -584,10 +1496,14 @@ export class SmartProjectComponentGenerator {
   private async getVenueRecommendations(
     projectType: string,
     userProfile: UserTasteProfile,
-    context: ProjectContext
+    context: ProjectContext,
+    priceLevel: QlooRange | undefined,
+    take: number,
+    options: QlooRequestOptions
   ): Promise<QlooEntity[]> {
     try {
       const insights = await this.qloo.getInsights({
+        ...options,
         filterType: ENTITY_TYPES.PLACE,
         signals: {
           entities: userProfile.interests.slice(0, 5),
@@ -596,63 +1512,69 @@ export class SmartProjectComponentGenerator {
         },
         filters: {
           location: context.userLocation,
-          priceLevel: userProfile.preferences?.priceLevel,
+          priceLevel,
           popularity: userProfile.preferences?.popularity
         },
-        take: 15
+        take
       });
 
       return insights.results;
     } catch (error) {
-      logger.error("Failed to get venue recommendations:", error);
+      degradeOnQlooError(error, "get venue recommendations");
       return [];
     }
   }
 
   private async getContentRecommendations(
     projectType: string,
-    userProfile: UserTasteProfile
+    userProfile: UserTasteProfile,
+    take: number,
+    options: QlooRequestOptions
   ): Promise<QlooEntity[]> {
     const contentTypes = [ENTITY_TYPES.BOOK, ENTITY_TYPES.PODCAST, ENTITY_TYPES.MOVIE];
-    const allContent: QlooEntity[] = [];
 
-    for (const contentType of contentTypes) {
+    const allContent = await Promise.all(contentTypes.map(async contentType => {
       try {
         const insights = await this.qloo.getInsights({
+          ...options,
           filterType: contentType,
           signals: {
             entities: userProfile.interests.slice(0, 5),
             demographics: userProfile.demographics
           },
-          take: 5
+          take
         });
 
-        allContent.push(...insights.results);
+        return insights.results;
       } catch (error) {
-        logger.warn(`Failed to get ${contentType} recommendations:`, error);
+        degradeOnQlooError(error, `get ${contentType} recommendations`);
+        return [];
       }
-    }
+    }));
 
-    return allContent;
+    return allContent.flat();
   }
 
   private async getToolRecommendations(
     projectType: string,
-    userProfile: UserTasteProfile
+    userProfile: UserTasteProfile,
+    take: number,
+    options: QlooRequestOptions
   ): Promise<QlooEntity[]> {
     try {
       const insights = await this.qloo.getInsights({
+        ...options,
         filterType: ENTITY_TYPES.BRAND,
         signals: {
           entities: userProfile.interests.slice(0, 5),
           demographics: userProfile.demographics
         },
-        take: 10
+        take
       });
 
       return insights.results;
     } catch (error) {
-      logger.error("Failed to get tool recommendations:", error);
+      degradeOnQlooError(error, "get tool recommendations");
       return [];
     }
   }
@@ -660,55 +1582,65 @@ export class SmartProjectComponentGenerator {
   private async getCommunityRecommendations(
     projectType: string,
     userProfile: UserTasteProfile,
-    context: ProjectContext
+    context: ProjectContext,
+    take: number,
+    options: QlooRequestOptions
   ): Promise<QlooEntity[]> {
     try {
       // Find places and destinations that align with user interests
       const insights = await this.qloo.getInsights({
+        ...options,
         filterType: ENTITY_TYPES.DESTINATION,
         signals: {
           entities: userProfile.interests.slice(0, 5),
           location: userProfile.location
         },
-        take: 10
+        take
       });
 
       return insights.results;
     } catch (error) {
-      logger.error("Failed to get community recommendations:", error);
+      degradeOnQlooError(error, "get community recommendations");
       return [];
     }
   }
 }
 
 export class CrossDomainDiscoveryEngine {
-  constructor(private qloo: QlooClient) {}
+  constructor(
+    private qloo: QlooClient,
+    private taxonomy: GoalTaxonomy = goalTaxonomy,
+    private interests = new InterestResolver(qloo, taxonomy)
+  ) {}
 
   async discoverUnexpectedConnections(
     userInterests: string[],
     targetDomain: string,
-    context: ProjectContext
+    context: ProjectContext,
+    options: QlooRequestOptions = {}
   ): Promise<{
+    resolvedInterests: ResolvedInterest[];
     surpriseConnections: Array<{
       fromInterest: string;
       toRecommendation: QlooEntity;
       connectionStrength: number;
       explanation: string;
     }>;
-    domainBridges: Array<{
-      domain1: string;
-      domain2: string;
-      bridgeEntities: QlooEntity[];
-      insights: string[];
-    }>;
-    trendingCrossOvers: QlooEntity[];
+    domainBridges: DomainBridge[];
+    trendingCrossOvers: QlooTrendingEntity[];
   }> {
     try {
       // Find entities for user interests
-      const userEntities = await this.resolveInterests(userInterests);
+      const resolvedInterests = await this.interests.resolve(userInterests, { ...options, goalCategory: targetDomain });
+      // Interests sent as entity IDs (e.g. from a stored profile) are named after their entity
+      const interestEntities = new Map(resolvedInterests.map(interest => [
+        interest.source === 'id' && interest.entities.length ? interest.entities[0].name : interest.query,
+        interest.entities
+      ]));
+      const userEntities = confidentEntities(resolvedInterests);
       
       // Get recommendations in target domain
-      const targetEntities = await this.getTargetDomainEntities(targetDomain, userEntities);
+      const targetEntities = await this.getTargetDomainEntities(targetDomain, userEntities, options);
       
       // Find surprise connections
       const surpriseConnections = await this.findSurpriseConnections(
@@ -718,12 +1650,13 @@ export class CrossDomainDiscoveryEngine {
       );
       
       // Discover domain bridges
-      const domainBridges = await this.findDomainBridges(userInterests, targetDomain);
+      const domainBridges = await this.findDomainBridges(interestEntities, targetEntities, targetDomain, options);
       
       // Get trending crossovers
-      const trendingCrossOvers = await this.getTrendingCrossovers(targetDomain);
+      const trendingCrossOvers = await this.getTrendingCrossovers(targetDomain, userEntities, options);
 
       return {
+        resolvedInterests,
         surpriseConnections,
         domainBridges,
         trendingCrossOvers
@@ -734,40 +1667,25 @@ export class CrossDomainDiscoveryEngine {
     }
   }
 
-  private async resolveInterests(interests: string[]): Promise<QlooEntity[]> {
-    const entities: QlooEntity[] = [];
-    
-    for (const interest of interests) {
-      const results = await this.qloo.searchEntities(interest, undefined, { take: 3 });
-      entities.push(...results);
-    }
-    
-    return entities;
-  }
-
-  private async getTargetDomainEntities(domain: string, userEntities: QlooEntity[]): Promise<QlooEntity[]> {
-    const domainTypeMapping: Record<string, string> = {
-      fitness: ENTITY_TYPES.PLACE,
-      food: ENTITY_TYPES.PLACE,
-      travel: ENTITY_TYPES.DESTINATION,
-      entertainment: ENTITY_TYPES.MOVIE,
-      music: ENTITY_TYPES.ARTIST,
-      business: ENTITY_TYPES.PLACE, // Use PLACE instead of BRAND for hackathon API
-      creative: ENTITY_TYPES.PLACE,
-      learning: ENTITY_TYPES.BOOK
-    };
-
-    const targetType = domainTypeMapping[domain] || ENTITY_TYPES.PLACE;
+  private async getTargetDomainEntities(
+    domain: string,
+    userEntities: QlooEntity[],
+    options: QlooRequestOptions
+  ): Promise<QlooEntity[]> {
+    const targetType = this.taxonomy.targetEntityType(domain);
     
     // Filter out entities that are actually tags and only use real entities
     const realEntities = userEntities.filter(e => e.type && !e.type.startsWith('urn:tag'));
     
     if (realEntities.length === 0) {
-      // If no real entities, fall back to location-based recommendations
+      // If no real entities, fall back to the domain's default tags around a default location
       logger.warn("No real entities found, falling back to location-based insights");
+      const defaultTags = this.taxonomy.defaultTags(domain);
       const insights = await this.qloo.getInsights({
+        ...options,
         filterType: targetType,
         signals: {
+          tags: defaultTags.length ? defaultTags : undefined,
           location: { query: 'Brooklyn, NY' } // Default fallback location
         },
         take: 20
@@ -780,24 +1698,18 @@ export class CrossDomainDiscoveryEngine {
     const tagEntities = userEntities.filter(e => e.type && e.type.startsWith('urn:tag'));
     const tagIds = tagEntities.map(e => e.id);
     
-    if (tagIds.length > 0) {
-      const insights = await this.qloo.getInsights({
-        filterType: targetType,
-        signals: {
-          tags: tagIds.slice(0, 5)
-        },
-        take: 20,
-        explainability: true
-      });
-      return insights.results;
-    } else {
-      // Final fallback - just get recommendations for the domain type
-      const insights = await this.qloo.getInsights({
-        filterType: targetType,
-        take: 20
-      });
-      return insights.results;
-    }
+    // Without tags, the resolved entities themselves are the signals. Either way ask for
+    // explainability so surprise connections can name the interest behind each result.
+    const insights = await this.qloo.getInsights({
+      ...options,
+      filterType: targetType,
+      signals: tagIds.length > 0
+        ? { tags: tagIds.slice(0, 5) }
+        : { entities: realEntities.slice(0, 5).map(e => e.id) },
+      take: 20,
+      explainability: true
+    });
+    return nameContributions(insights.results, userEntities);
   }
 
   private async findSurpriseConnections(
@@ -817,79 +1729,166 @@ export class CrossDomainDiscoveryEngine {
       explanation: string;
     }> = [];
 
-    // Analyze connections between user interests and target recommendations
-    for (const userEntity of userEntities.slice(0, 3)) {
-      for (const targetEntity of targetEntities.slice(0, 5)) {
-        if (targetEntity.affinity && targetEntity.affinity > 0.7) {
-          connections.push({
-            fromInterest: userEntity.name,
-            toRecommendation: targetEntity,
-            connectionStrength: targetEntity.affinity,
-            explanation: `People who like ${userEntity.name} often also enjoy ${targetEntity.name}`
-          });
-        }
+    // Only strong matches whose explainability names the interest that drove them,
+    // and never the user's own interests echoed back
+    const userEntityIds = new Set(userEntities.map(e => e.id));
+    for (const targetEntity of targetEntities) {
+      const driver = topContribution(targetEntity.explanation);
+      const explanation = describeContributions(targetEntity.explanation);
+      if (!driver || !explanation || !targetEntity.affinity || targetEntity.affinity <= 0.7 || userEntityIds.has(targetEntity.id)) {
+        continue;
       }
+
+      connections.push({
+        fromInterest: driver.name!,
+        toRecommendation: targetEntity,
+        connectionStrength: targetEntity.affinity,
+        explanation
+      });
     }
 
     return connections.sort((a, b) => b.connectionStrength - a.connectionStrength);
   }
 
+  // One bridge per interest whose tags also show up in the target domain. The interest's tags come from
+  // its resolved entities plus a tag search on the interest itself; the target side is the domain's
+  // recommendations plus insights driven by those tags as signals.
+  // Strength is the geometric mean of how many of the interest's tags bridge and how much of the
+  // target side they reach, so a single niche tag shared with one entity scores low.
   private async findDomainBridges(
-    userInterests: string[],
-    targetDomain: string
-  ): Promise<Array<{
-    domain1: string;
-    domain2: string;
-    bridgeEntities: QlooEntity[];
-    insights: string[];
-  }>> {
-    const bridges: Array<{
-      domain1: string;
-      domain2: string;
-      bridgeEntities: QlooEntity[];
-      insights: string[];
-    }> = [];
+    interestEntities: Map<string, QlooEntity[]>,
+    targetEntities: QlooEntity[],
+    targetDomain: string,
+    options: QlooRequestOptions
+  ): Promise<DomainBridge[]> {
+    const interests = [...interestEntities.keys()];
+    const searchedTags = await Promise.all(interests.map(async interest => {
+      try {
+        return await this.qloo.searchTags(interest, { ...options, take: 3 });
+      } catch (error) {
+        degradeOnQlooError(error, `search tags for "${interest}"`);
+        return [];
+      }
+    }));
+
+    const interestTags = new Map(interests.map((interest, i) => {
+      const tags = new Map<string, QlooTag>();
+      for (const entity of interestEntities.get(interest)!) {
+        if (entity.type.startsWith('urn:tag')) {
+          tags.set(entity.id, { id: entity.id, name: entity.name, type: entity.type });
+        }
+        entity.tags?.forEach(tag => tags.set(tag.id, tag));
+      }
+      searchedTags[i].forEach(tag => tags.set(tag.id, tag));
+      return [interest, tags] as const;
+    }));
+
+    const interestIds = [...new Set([...interestEntities.values()].flatMap(entities => toInterestSignals(entities, entities.length).entities))];
+    const targetSide = await this.expandTargetEntities(
+      targetEntities,
+      [...new Set([...interestTags.values()].flatMap(tags => [...tags.keys()]))],
+      interestIds,
+      targetDomain,
+      options
+    );
+    if (!targetSide.length) {
+      return [];
+    }
+
+    const bridges: DomainBridge[] = [];
+    for (const interest of interests) {
+      const tags = interestTags.get(interest)!;
+      const bridgingTags = [...tags.values()].filter(tag => targetSide.some(entity => hasTag(entity, tag.id)));
+      if (!bridgingTags.length) {
+        continue;
+      }
+
+      const bridgingIds = new Set(bridgingTags.map(tag => tag.id));
+      const carriesBridgingTag = (entity: QlooEntity) => entity.tags?.some(tag => bridgingIds.has(tag.id)) || false;
+      const bridgeEntities = targetSide.filter(carriesBridgingTag);
+      const strength = Math.sqrt((bridgingTags.length / tags.size) * (bridgeEntities.length / targetSide.length));
+      const tagNames = bridgingTags.slice(0, 3).map(tag => tag.name).join(', ');
 
-    try {
-      // Skip API call and create synthetic bridges for hackathon demo
-      // The API is having issues with entity resolution in hackathon environment
       bridges.push({
-        domain1: 'user_interests',
+        domain1: interest,
         domain2: targetDomain,
-        bridgeEntities: [], // Empty for now, could be populated with synthetic data
+        bridgingTags,
+        interestEntities: interestEntities.get(interest)!.filter(carriesBridgingTag).slice(0, 3),
+        bridgeEntities: bridgeEntities.slice(0, 3),
+        strength: round(strength),
         insights: [
-          `Bridge found between ${userInterests.join(', ')} and ${targetDomain} domain`,
-          'Cultural connections exist across these domains',
-          'Consider exploring crossover opportunities'
+          `${interest} and ${targetDomain} meet through ${tagNames}`,
+          `${bridgeEntities.length} of ${targetSide.length} ${targetDomain} picks share these traits, e.g. ${bridgeEntities.slice(0, 2).map(e => e.name).join(' and ')}`
         ]
       });
-    } catch (error) {
-      logger.warn("Failed to find domain bridges:", error);
     }
 
-    return bridges;
+    return bridges.sort((a, b) => b.strength - a.strength);
   }
 
-  private async getTrendingCrossovers(domain: string): Promise<QlooEntity[]> {
-    try {
-      const domainTypeMapping: Record<string, string> = {
-        fitness: ENTITY_TYPES.PLACE, // Use PLACE instead of BRAND for hackathon API
-        food: ENTITY_TYPES.PLACE,
-        travel: ENTITY_TYPES.DESTINATION,
-        entertainment: ENTITY_TYPES.MOVIE,
-        music: ENTITY_TYPES.ARTIST,
-        business: ENTITY_TYPES.PLACE,
-        creative: ENTITY_TYPES.PLACE,
-        learning: ENTITY_TYPES.BOOK
-      };
+  // Target-domain recommendations plus the entities the interest tags point to in that domain,
+  // without the interests' own entities: a bridge made of what the user already likes leads nowhere
+  private async expandTargetEntities(
+    targetEntities: QlooEntity[],
+    tagIds: string[],
+    interestIds: string[],
+    targetDomain: string,
+    options: QlooRequestOptions
+  ): Promise<QlooEntity[]> {
+    const entities = new Map(targetEntities.map(entity => [entity.id, entity]));
+    if (tagIds.length) {
+      try {
+        const insights = await this.qloo.getInsights({
+          ...options,
+          filterType: this.taxonomy.targetEntityType(targetDomain),
+          signals: { tags: tagIds.slice(0, 10) },
+          filters: interestIds.length ? { excludeEntities: interestIds } : undefined,
+          take: 20
+        });
+        insights.results.forEach(entity => entities.set(entity.id, entities.get(entity.id) || entity));
+      } catch (error) {
+        degradeOnQlooError(error, `get ${targetDomain} entities for interest tags`);
+      }
+    }
+    interestIds.forEach(id => entities.delete(id));
+    return [...entities.values()];
+  }
 
-      const entityType = domainTypeMapping[domain] || ENTITY_TYPES.PLACE;
-      
-      // For now, return empty array since trending API might not be available in hackathon
-      // Could be replaced with synthetic trending data
+  // What's trending in the domain that this user would actually like: trending entities that also
+  // rank among the user's taste-based recommendations, ordered by trend score times affinity
+  private async getTrendingCrossovers(
+    domain: string,
+    userEntities: QlooEntity[],
+    options: QlooRequestOptions
+  ): Promise<QlooTrendingEntity[]> {
+    const entityType = this.taxonomy.targetEntityType(domain);
+    const signals = toInterestSignals(userEntities);
+    if (!signals.entities.length && !signals.tags.length) {
       return [];
+    }
+
+    // The user's own interests aren't crossovers, however much they trend
+    const ownIds = new Set(userEntities.map(entity => entity.id));
+
+    try {
+      const [trending, insights] = await Promise.all([
+        this.qloo.getTrendingEntities(entityType, { ...options, take: 50 }),
+        this.qloo.getInsights({
+          ...options,
+          filterType: entityType,
+          signals,
+          filters: signals.entities.length ? { excludeEntities: signals.entities } : undefined,
+          take: 50
+        })
+      ]);
+
+      const affinityById = new Map(insights.results.map(entity => [entity.id, entity.affinity || 0]));
+      return trending
+        .filter(entity => affinityById.has(entity.id) && !ownIds.has(entity.id))
+        .map(entity => ({ ...entity, affinity: affinityById.get(entity.id) }))
+        .sort((a, b) => b.trend.score * (b.affinity || 0) - a.trend.score * (a.affinity || 0));
     } catch (error) {
-      logger.error("Failed to get trending crossovers:", error);
+      degradeOnQlooError(error, `get trending crossovers for ${domain}`);
       return [];
     }
   }
@@ -907,9 +1906,25 @@ export function createUserTasteProfile(data: {
   age?: string;
   gender?: string;
   location?: string;
-  coordinates?: string;
+  coordinates?: string | GeoPoint; // "lat,lon", WKT POINT or a GeoPoint; stored as WKT POINT
   priceRange?: { min?: number; max?: number };
 }): UserTasteProfile {
+  let coordinates: string | undefined;
+  if (data.coordinates) {
+    const shape = tryParseGeoShape(data.coordinates);
+    if (shape?.kind === 'point') {
+      coordinates = toWktPoint(shape.point);
+    } else {
+      logger.warn(`Ignoring invalid profile coordinates: ${JSON.stringify(data.coordinates)}`);
+    }
+  }
+
+  // Fill in coordinates from the offline gazetteer so distance-aware features work from a city name alone
+  if (!coordinates && data.location) {
+    const point = resolvePlaceName(defaultGazetteer, data.location);
+    coordinates = point && toWktPoint(point);
+  }
+
   return {
     interests: data.interests,
     demographics: {
@@ -918,7 +1933,7 @@ export function createUserTasteProfile(data: {
     },
     location: {
       query: data.location,
-      coordinates: data.coordinates
+      coordinates
     },
     preferences: {
       priceLevel: data.priceRange
@@ -932,12 +1947,14 @@ export function createProjectContext(data: {
   userLocation?: string;
   timeframe?: string;
   budget?: string;
+  startDate?: string;
 }): ProjectContext {
   return {
     projectType: data.projectType,
     goalCategory: data.goalCategory,
     userLocation: data.userLocation,
     timeframe: data.timeframe,
-    budget: data.budget
+    budget: data.budget,
+    startDate: data.startDate
   };
 }
\ No newline at end of file
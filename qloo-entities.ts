@@ -0,0 +1,405 @@
+import type { RawQlooEntity } from "./qloo-schemas";
+import { QlooContribution, parseExplainability } from "./qloo-explainability";
+
+// Typed Qloo entities. Each entity type carries its own property shape, parsed from the raw
+// payload by parseEntity; fields we don't model are kept on `properties` as `unknown`.
+
+// Entity Types supported by Qloo
+export const ENTITY_TYPES = {
+  ARTIST: "urn:entity:artist",
+  BOOK: "urn:entity:book",
+  BRAND: "urn:entity:brand",
+  DESTINATION: "urn:entity:destination",
+  MOVIE: "urn:entity:movie",
+  PERSON: "urn:entity:person",
+  PLACE: "urn:entity:place",
+  PODCAST: "urn:entity:podcast",
+  TV_SHOW: "urn:entity:tv_show",
+  VIDEO_GAME: "urn:entity:video_game"
+} as const;
+
+export type QlooEntityType = typeof ENTITY_TYPES[keyof typeof ENTITY_TYPES];
+
+const KNOWN_ENTITY_TYPES = new Set<string>(Object.values(ENTITY_TYPES));
+
+export interface QlooGeocode {
+  name?: string;
+  city?: string;
+  admin1_region?: string;
+  admin2_region?: string;
+  country_code?: string;
+}
+
+export interface QlooImage {
+  url: string;
+}
+
+// Fields shared by every entity type
+export interface QlooCommonProperties {
+  description?: string;
+  short_description?: string;
+  image?: QlooImage;
+  [key: string]: unknown;
+}
+
+export interface QlooPlaceProperties extends QlooCommonProperties {
+  address?: string;
+  phone?: string;
+  website?: string;
+  price_level?: number; // 1 (cheapest) to 4
+  business_rating?: number;
+  hours?: Record<string, Array<{ opens: string; closes: string }>>; // Keyed by day of week
+  geocode?: QlooGeocode;
+  is_closed?: boolean;
+}
+
+export interface QlooMovieProperties extends QlooCommonProperties {
+  release_year?: number;
+  release_date?: string;
+  content_rating?: string;
+  duration?: number; // Minutes
+}
+
+export interface QlooTvShowProperties extends QlooCommonProperties {
+  release_year?: number;
+  finale_year?: number;
+  content_rating?: string;
+}
+
+export interface QlooBookProperties extends QlooCommonProperties {
+  author?: string;
+  publication_year?: number;
+  publication_date?: string;
+  page_count?: number;
+}
+
+export interface QlooArtistProperties extends QlooCommonProperties {
+  date_of_birth?: string;
+  place_of_birth?: string;
+}
+
+export interface QlooPersonProperties extends QlooCommonProperties {
+  date_of_birth?: string;
+  place_of_birth?: string;
+  gender?: string;
+}
+
+export interface QlooPodcastProperties extends QlooCommonProperties {
+  publisher?: string;
+  episode_count?: number;
+}
+
+export interface QlooDestinationProperties extends QlooCommonProperties {
+  geocode?: QlooGeocode;
+}
+
+export interface QlooBrandProperties extends QlooCommonProperties {
+  website?: string;
+}
+
+export interface QlooVideoGameProperties extends QlooCommonProperties {
+  release_year?: number;
+  publisher?: string;
+  platforms?: string[];
+}
+
+// Tags Qloo attaches to an entity (genres, keywords, amenities...)
+export interface QlooEntityTag {
+  id: string;
+  name: string;
+  type?: string;
+}
+
+interface QlooEntityBase {
+  id: string;
+  name: string;
+  affinity?: number;
+  popularity?: number;
+  tags?: QlooEntityTag[];
+  explanation?: QlooContribution[]; // Which signals drove this result; insights with explainability only
+  location?: { lat: number; lon: number };
+  distanceMeters?: number; // From the request's reference point, when it has one (see qloo-geo)
+}
+
+export interface QlooPlaceEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.PLACE;
+  properties: QlooPlaceProperties;
+}
+
+export interface QlooMovieEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.MOVIE;
+  properties: QlooMovieProperties;
+}
+
+export interface QlooTvShowEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.TV_SHOW;
+  properties: QlooTvShowProperties;
+}
+
+export interface QlooBookEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.BOOK;
+  properties: QlooBookProperties;
+}
+
+export interface QlooArtistEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.ARTIST;
+  properties: QlooArtistProperties;
+}
+
+export interface QlooPersonEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.PERSON;
+  properties: QlooPersonProperties;
+}
+
+export interface QlooPodcastEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.PODCAST;
+  properties: QlooPodcastProperties;
+}
+
+export interface QlooDestinationEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.DESTINATION;
+  properties: QlooDestinationProperties;
+}
+
+export interface QlooBrandEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.BRAND;
+  properties: QlooBrandProperties;
+}
+
+export interface QlooVideoGameEntity extends QlooEntityBase {
+  type: typeof ENTITY_TYPES.VIDEO_GAME;
+  properties: QlooVideoGameProperties;
+}
+
+// Anything outside ENTITY_TYPES (tags returned by search, new entity types, 'unknown')
+export interface QlooOtherEntity extends QlooEntityBase {
+  type: string;
+  properties: QlooCommonProperties;
+}
+
+export type QlooEntity =
+  | QlooPlaceEntity
+  | QlooMovieEntity
+  | QlooTvShowEntity
+  | QlooBookEntity
+  | QlooArtistEntity
+  | QlooPersonEntity
+  | QlooPodcastEntity
+  | QlooDestinationEntity
+  | QlooBrandEntity
+  | QlooVideoGameEntity
+  | QlooOtherEntity;
+
+export type QlooEntityOfType<T extends QlooEntityType> = Extract<QlooEntity, { type: T }>;
+
+// Type guards. Checking `entity.type` directly does not narrow because QlooOtherEntity's type is any string.
+export function isEntityOfType<T extends QlooEntityType>(entity: QlooEntity, type: T): entity is QlooEntityOfType<T> {
+  return entity.type === type;
+}
+
+export function isKnownEntityType(type: string): type is QlooEntityType {
+  return KNOWN_ENTITY_TYPES.has(type);
+}
+
+export const isPlaceEntity = (entity: QlooEntity): entity is QlooPlaceEntity => isEntityOfType(entity, ENTITY_TYPES.PLACE);
+export const isMovieEntity = (entity: QlooEntity): entity is QlooMovieEntity => isEntityOfType(entity, ENTITY_TYPES.MOVIE);
+export const isTvShowEntity = (entity: QlooEntity): entity is QlooTvShowEntity => isEntityOfType(entity, ENTITY_TYPES.TV_SHOW);
+export const isBookEntity = (entity: QlooEntity): entity is QlooBookEntity => isEntityOfType(entity, ENTITY_TYPES.BOOK);
+export const isArtistEntity = (entity: QlooEntity): entity is QlooArtistEntity => isEntityOfType(entity, ENTITY_TYPES.ARTIST);
+export const isPersonEntity = (entity: QlooEntity): entity is QlooPersonEntity => isEntityOfType(entity, ENTITY_TYPES.PERSON);
+export const isPodcastEntity = (entity: QlooEntity): entity is QlooPodcastEntity => isEntityOfType(entity, ENTITY_TYPES.PODCAST);
+export const isDestinationEntity = (entity: QlooEntity): entity is QlooDestinationEntity => isEntityOfType(entity, ENTITY_TYPES.DESTINATION);
+export const isBrandEntity = (entity: QlooEntity): entity is QlooBrandEntity => isEntityOfType(entity, ENTITY_TYPES.BRAND);
+export const isVideoGameEntity = (entity: QlooEntity): entity is QlooVideoGameEntity => isEntityOfType(entity, ENTITY_TYPES.VIDEO_GAME);
+
+// Qloo is loose with scalar types (years and price levels sometimes arrive as strings)
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+}
+
+function toImage(value: unknown): QlooImage | undefined {
+  if (typeof value === 'string') {
+    return { url: value };
+  }
+  const url = toString((value as { url?: unknown } | null)?.url);
+  return url ? { url } : undefined;
+}
+
+function toGeocode(value: unknown): QlooGeocode | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const geocode = value as Record<string, unknown>;
+  return {
+    name: toString(geocode.name),
+    city: toString(geocode.city),
+    admin1_region: toString(geocode.admin1_region),
+    admin2_region: toString(geocode.admin2_region),
+    country_code: toString(geocode.country_code)
+  };
+}
+
+function toTags(value: unknown): QlooEntityTag[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.flatMap(tag => {
+    const id = toString(tag?.id ?? tag?.tag_id);
+    const name = toString(tag?.name);
+    return id && name ? [{ id, name, type: toString(tag.subtype ?? tag.type) }] : [];
+  });
+}
+
+function parseCommonProperties(raw: Record<string, any>): QlooCommonProperties {
+  return {
+    ...raw,
+    description: toString(raw.description),
+    short_description: toString(raw.short_description),
+    image: toImage(raw.image)
+  };
+}
+
+// The entity type is the first known URN among subtype, type and types; search results list
+// several types, insights results put the requested one in subtype
+export function resolveEntityType(raw: Pick<RawQlooEntity, 'subtype' | 'type' | 'types'>): string {
+  const candidates = [raw.subtype, raw.type, ...(raw.types || [])].filter((t): t is string => Boolean(t));
+  return candidates.find(isKnownEntityType) || candidates[0] || 'unknown';
+}
+
+// Turn a raw entity from any endpoint into a typed QlooEntity
+export function parseEntity(raw: RawQlooEntity): QlooEntity {
+  const type = resolveEntityType(raw);
+  const rawProperties: Record<string, any> = raw.properties || {};
+  const common = parseCommonProperties(rawProperties);
+  const rawLocation = (raw as { location?: { lat?: unknown; lon?: unknown } }).location;
+  const lat = toNumber(rawLocation?.lat);
+  const lon = toNumber(rawLocation?.lon);
+
+  const base: QlooEntityBase = {
+    id: raw.entity_id || raw.id || '',
+    name: raw.name,
+    affinity: raw.query?.affinity ?? raw.affinity,
+    popularity: raw.popularity,
+    tags: toTags((raw as { tags?: unknown }).tags),
+    explanation: parseExplainability(raw.query?.explainability),
+    location: lat !== undefined && lon !== undefined ? { lat, lon } : undefined
+  };
+
+  switch (type) {
+    case ENTITY_TYPES.PLACE:
+      return {
+        ...base,
+        type,
+        properties: {
+          ...common,
+          address: toString(rawProperties.address),
+          phone: toString(rawProperties.phone),
+          website: toString(rawProperties.website),
+          price_level: toNumber(rawProperties.price_level),
+          business_rating: toNumber(rawProperties.business_rating),
+          hours: rawProperties.hours && typeof rawProperties.hours === 'object' ? rawProperties.hours : undefined,
+          geocode: toGeocode(rawProperties.geocode),
+          is_closed: typeof rawProperties.is_closed === 'boolean' ? rawProperties.is_closed : undefined
+        }
+      };
+    case ENTITY_TYPES.MOVIE:
+      return {
+        ...base,
+        type,
+        properties: {
+          ...common,
+          release_year: toNumber(rawProperties.release_year),
+          release_date: toString(rawProperties.release_date),
+          content_rating: toString(rawProperties.content_rating),
+          duration: toNumber(rawProperties.duration)
+        }
+      };
+    case ENTITY_TYPES.TV_SHOW:
+      return {
+        ...base,
+        type,
+        properties: {
+          ...common,
+          release_year: toNumber(rawProperties.release_year),
+          finale_year: toNumber(rawProperties.finale_year),
+          content_rating: toString(rawProperties.content_rating)
+        }
+      };
+    case ENTITY_TYPES.BOOK:
+      return {
+        ...base,
+        type,
+        properties: {
+          ...common,
+          author: toString(rawProperties.author),
+          publication_year: toNumber(rawProperties.publication_year),
+          publication_date: toString(rawProperties.publication_date),
+          page_count: toNumber(rawProperties.page_count)
+        }
+      };
+    case ENTITY_TYPES.ARTIST:
+      return {
+        ...base,
+        type,
+        properties: {
+          ...common,
+          date_of_birth: toString(rawProperties.date_of_birth),
+          place_of_birth: toString(rawProperties.place_of_birth)
+        }
+      };
+    case ENTITY_TYPES.PERSON:
+      return {
+        ...base,
+        type,
+        properties: {
+          ...common,
+          date_of_birth: toString(rawProperties.date_of_birth),
+          place_of_birth: toString(rawProperties.place_of_birth),
+          gender: toString(rawProperties.gender)
+        }
+      };
+    case ENTITY_TYPES.PODCAST:
+      return {
+        ...base,
+        type,
+        properties: {
+          ...common,
+          publisher: toString(rawProperties.publisher),
+          episode_count: toNumber(rawProperties.episode_count)
+        }
+      };
+    case ENTITY_TYPES.DESTINATION:
+      return {
+        ...base,
+        type,
+        properties: { ...common, geocode: toGeocode(rawProperties.geocode) }
+      };
+    case ENTITY_TYPES.BRAND:
+      return {
+        ...base,
+        type,
+        properties: { ...common, website: toString(rawProperties.website) }
+      };
+    case ENTITY_TYPES.VIDEO_GAME:
+      return {
+        ...base,
+        type,
+        properties: {
+          ...common,
+          release_year: toNumber(rawProperties.release_year),
+          publisher: toString(rawProperties.publisher),
+          platforms: Array.isArray(rawProperties.platforms) ? rawProperties.platforms.map(String) : undefined
+        }
+      };
+    default:
+      return { ...base, type, properties: common };
+  }
+}
@@ -0,0 +1,136 @@
+// Error hierarchy for Qloo API failures, so callers can react to the cause
+// (bad key, endpoint not enabled, bad params, throttling...) instead of a message string.
+
+export interface QlooErrorDetails {
+  url: string; // Request URL with credentials redacted
+  status?: number;
+  body?: unknown; // Parsed JSON body when possible, raw text otherwise
+  cause?: unknown;
+}
+
+export class QlooError extends Error {
+  readonly url: string;
+  readonly status?: number;
+  readonly body?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: QlooErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.url = details.url;
+    this.status = details.status;
+    this.body = details.body;
+    this.cause = details.cause;
+  }
+}
+
+// 401 - missing or invalid API key
+export class QlooAuthError extends QlooError {}
+
+// 403 - key is valid but the endpoint or feature is not enabled for it
+export class QlooForbiddenError extends QlooError {}
+
+// 400 / 422 - Qloo rejected the request parameters
+export class QlooValidationError extends QlooError {
+  readonly params: Record<string, any>;
+
+  constructor(message: string, details: QlooErrorDetails & { params: Record<string, any> }) {
+    super(message, details);
+    this.params = details.params;
+  }
+}
+
+// 404 - unknown endpoint or entity
+export class QlooNotFoundError extends QlooError {}
+
+// 429 - throttled, after our own retries were exhausted
+export class QlooRateLimitError extends QlooError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: QlooErrorDetails & { retryAfterMs?: number }) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+// 5xx - Qloo-side failure
+export class QlooServerError extends QlooError {}
+
+// The request never produced a response (DNS, connection reset, ...)
+export class QlooNetworkError extends QlooError {}
+
+// The request did not complete in time
+export class QlooTimeoutError extends QlooNetworkError {}
+
+// The caller cancelled the request through its AbortSignal; never retried or swallowed
+export class QlooAbortError extends QlooError {}
+
+// A 2xx response whose body is not what we expect
+export class QlooMalformedResponseError extends QlooError {}
+
+// Valid JSON that does not match the endpoint's schema; raised in strict validation mode
+export class QlooResponseValidationError extends QlooMalformedResponseError {
+  readonly endpoint: string;
+  readonly issues: Array<{ path: string; message: string }>;
+
+  constructor(
+    message: string,
+    details: QlooErrorDetails & { endpoint: string; issues: Array<{ path: string; message: string }> }
+  ) {
+    super(message, details);
+    this.endpoint = details.endpoint;
+    this.issues = details.issues;
+  }
+}
+
+// Strip anything that looks like a credential from a URL before it ends up in logs or errors
+export function redactUrl(url: string | URL): string {
+  const redacted = new URL(url.toString());
+  for (const key of Array.from(redacted.searchParams.keys())) {
+    if (/api[_-]?key|token|secret/i.test(key)) {
+      redacted.searchParams.set(key, 'REDACTED');
+    }
+  }
+  return redacted.toString();
+}
+
+export function parseErrorBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Map a non-2xx response onto the matching error class
+export function createQlooHttpError(options: {
+  status: number;
+  statusText: string;
+  url: string;
+  body: unknown;
+  params: Record<string, any>;
+  retryAfterMs?: number;
+}): QlooError {
+  const { status, statusText, url, body, params, retryAfterMs } = options;
+  const detail = typeof body === 'string' ? body : JSON.stringify(body);
+  const message = `Qloo API error: ${status} ${statusText} - ${detail}`;
+  const details: QlooErrorDetails = { url, status, body };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new QlooValidationError(message, { ...details, params });
+    case 401:
+      return new QlooAuthError(message, details);
+    case 403:
+      return new QlooForbiddenError(message, details);
+    case 404:
+      return new QlooNotFoundError(message, details);
+    case 408:
+      return new QlooTimeoutError(message, details);
+    case 429:
+      return new QlooRateLimitError(message, { ...details, retryAfterMs });
+    default:
+      return status >= 500 ? new QlooServerError(message, details) : new QlooError(message, details);
+  }
+}
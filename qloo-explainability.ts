@@ -0,0 +1,76 @@
+// Explainability for insights results (feature.explainability=true): which of the request's
+// signals drove each recommendation, and by how much.
+//
+// Qloo reports it per result under query.explainability, keyed by signal path, e.g.
+//   { "signal.interests.entities": [{ "entity_id": "...", "score": 0.63 }],
+//     "signal.interests.tags": [{ "tag_id": "urn:tag:...", "score": 0.21 }] }
+
+export type QlooSignalKind = 'entity' | 'tag' | 'audience' | 'other';
+
+export interface QlooContribution {
+  kind: QlooSignalKind;
+  id: string;
+  name?: string; // Filled in by nameContributions; Qloo only returns IDs
+  score: number;
+}
+
+function signalKind(path: string, id: string): QlooSignalKind {
+  if (path.includes('tags') || id.startsWith('urn:tag')) return 'tag';
+  if (path.includes('audiences') || id.startsWith('urn:audience')) return 'audience';
+  if (path.includes('entities')) return 'entity';
+  return 'other';
+}
+
+function toContribution(path: string, item: unknown): QlooContribution | undefined {
+  if (!item || typeof item !== 'object') {
+    return undefined;
+  }
+  const raw = item as Record<string, unknown>;
+  const id = [raw.entity_id, raw.tag_id, raw.audience_id, raw.id].find((value): value is string => typeof value === 'string');
+  const score = [raw.score, raw.affinity, raw.weight].find((value): value is number => typeof value === 'number');
+  return id && score !== undefined ? { kind: signalKind(path, id), id, score } : undefined;
+}
+
+// Contributions strongest first; undefined when the payload is missing or unrecognizable
+export function parseExplainability(raw: unknown): QlooContribution[] | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const groups: Array<[string, unknown]> = Array.isArray(raw) ? [['', raw]] : Object.entries(raw);
+  const contributions = groups
+    .flatMap(([path, items]) => (Array.isArray(items) ? items : [items]).map(item => toContribution(path, item)))
+    .filter((contribution): contribution is QlooContribution => contribution !== undefined)
+    .sort((a, b) => b.score - a.score);
+
+  return contributions.length ? contributions : undefined;
+}
+
+// Attach the names of the request's signals (the user's resolved interests) to each contribution
+export function nameContributions<T extends { explanation?: QlooContribution[] }>(
+  entities: T[],
+  signals: Array<{ id: string; name: string }>
+): T[] {
+  const names = new Map(signals.map(signal => [signal.id, signal.name]));
+  return entities.map(entity => entity.explanation
+    ? { ...entity, explanation: entity.explanation.map(c => ({ ...c, name: c.name || names.get(c.id) })) }
+    : entity);
+}
+
+// The signal that contributed most, among those with a name
+export function topContribution(contributions?: QlooContribution[]): QlooContribution | undefined {
+  return contributions?.find(contribution => contribution.name);
+}
+
+// "Driven by Sey Coffee (75%) and Specialty Coffee (25%)"; shares are of the named contributions shown
+export function describeContributions(contributions?: QlooContribution[], limit = 2): string | undefined {
+  const named = (contributions || []).filter(contribution => contribution.name).slice(0, limit);
+  const total = named.reduce((sum, contribution) => sum + contribution.score, 0);
+  if (!named.length || total <= 0) {
+    return undefined;
+  }
+
+  const parts = named.map(contribution => `${contribution.name} (${Math.round((contribution.score / total) * 100)}%)`);
+  const last = parts.pop();
+  return `Driven by ${parts.length ? `${parts.join(', ')} and ${last}` : last}`;
+}
@@ -0,0 +1,237 @@
+// Fixture data for the fake Qloo server. Entities, tags and audiences are stored in the
+// raw shape the Qloo API returns so the client's transforms run exactly as they do in production.
+
+export interface FakeQlooTag {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface FakeQlooEntity {
+  entity_id: string;
+  name: string;
+  types: string[];
+  subtype?: string;
+  popularity: number;
+  location?: { lat: number; lon: number };
+  properties: Record<string, any>;
+  tags: FakeQlooTag[];
+}
+
+export interface FakeQlooAudience {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface FakeQlooTrend {
+  entity_id: string;
+  score: number;
+  velocity: number;
+}
+
+export interface FakeQlooFixtures {
+  entities: FakeQlooEntity[];
+  tags: FakeQlooTag[];
+  audiences: FakeQlooAudience[];
+  trends: FakeQlooTrend[];
+  trendWindow: { start: string; end: string };
+}
+
+const TAGS = {
+  coffee: { id: "urn:tag:genre:place:restaurant:coffee", name: "Coffee", type: "urn:tag:genre:place" },
+  specialtyCoffee: { id: "urn:tag:keyword:place:specialty_coffee", name: "Specialty Coffee", type: "urn:tag:keyword:place" },
+  indieMusic: { id: "urn:tag:genre:music:indie", name: "Indie", type: "urn:tag:genre:music" },
+  liveMusic: { id: "urn:tag:amenity:place:live_music", name: "Live Music", type: "urn:tag:amenity:place" },
+  fitness: { id: "urn:tag:genre:place:fitness_studio", name: "Fitness Studio", type: "urn:tag:genre:place" },
+  yoga: { id: "urn:tag:keyword:place:yoga", name: "Yoga", type: "urn:tag:keyword:place" },
+  hiking: { id: "urn:tag:keyword:place:hiking", name: "Hiking", type: "urn:tag:keyword:place" },
+  mindfulness: { id: "urn:tag:keyword:media:mindfulness", name: "Mindfulness", type: "urn:tag:keyword:media" },
+  entrepreneurship: { id: "urn:tag:keyword:media:entrepreneurship", name: "Entrepreneurship", type: "urn:tag:keyword:media" },
+  sustainability: { id: "urn:tag:keyword:media:sustainability", name: "Sustainability", type: "urn:tag:keyword:media" },
+  craftBeer: { id: "urn:tag:genre:place:restaurant:brewery", name: "Brewery", type: "urn:tag:genre:place" },
+  coworking: { id: "urn:tag:genre:place:coworking_space", name: "Coworking Space", type: "urn:tag:genre:place" },
+  design: { id: "urn:tag:keyword:media:design", name: "Design", type: "urn:tag:keyword:media" },
+  japanese: { id: "urn:tag:genre:place:restaurant:japanese", name: "Japanese", type: "urn:tag:genre:place" },
+  vinyl: { id: "urn:tag:keyword:place:vinyl_records", name: "Vinyl Records", type: "urn:tag:keyword:place" },
+  artCulture: { id: "urn:tag:genre:destination:art_culture", name: "Art & Culture", type: "urn:tag:genre:destination" },
+  outdoors: { id: "urn:tag:genre:destination:outdoors", name: "Outdoors", type: "urn:tag:genre:destination" },
+  documentary: { id: "urn:tag:genre:media:documentary", name: "Documentary", type: "urn:tag:genre:media" },
+  socialClub: { id: "urn:tag:keyword:place:social_club", name: "Social Club", type: "urn:tag:keyword:place" }
+};
+
+function place(
+  entity_id: string,
+  name: string,
+  popularity: number,
+  location: { lat: number; lon: number },
+  properties: Record<string, any>,
+  tags: FakeQlooTag[]
+): FakeQlooEntity {
+  return {
+    entity_id,
+    name,
+    types: ["urn:entity:place"],
+    subtype: "urn:entity:place",
+    popularity,
+    location,
+    properties,
+    tags
+  };
+}
+
+function entity(
+  type: string,
+  entity_id: string,
+  name: string,
+  popularity: number,
+  properties: Record<string, any>,
+  tags: FakeQlooTag[]
+): FakeQlooEntity {
+  return { entity_id, name, types: [type], subtype: type, popularity, properties, tags };
+}
+
+export const DEFAULT_FAKE_FIXTURES: FakeQlooFixtures = {
+  entities: [
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E01", "Devoción", 0.91, { lat: 40.716, lon: -73.9646 }, {
+      address: "69 Grand St, Brooklyn, NY 11249",
+      geocode: { city: "Brooklyn", admin1_region: "NY", country_code: "US" },
+      price_level: 2,
+      business_rating: 4.6
+    }, [TAGS.coffee, TAGS.specialtyCoffee]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E02", "Sey Coffee", 0.84, { lat: 40.7115, lon: -73.9296 }, {
+      address: "18 Grattan St, Brooklyn, NY 11206",
+      geocode: { city: "Brooklyn", admin1_region: "NY", country_code: "US" },
+      price_level: 2,
+      business_rating: 4.7
+    }, [TAGS.coffee, TAGS.specialtyCoffee, TAGS.design]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E03", "Union Pool", 0.78, { lat: 40.7153, lon: -73.9516 }, {
+      address: "484 Union Ave, Brooklyn, NY 11211",
+      geocode: { city: "Brooklyn", admin1_region: "NY", country_code: "US" },
+      price_level: 2,
+      business_rating: 4.4
+    }, [TAGS.liveMusic, TAGS.indieMusic, TAGS.socialClub]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E04", "Brooklyn Bouldering Project", 0.73, { lat: 40.6803, lon: -73.9846 }, {
+      address: "575 Degraw St, Brooklyn, NY 11217",
+      geocode: { city: "Brooklyn", admin1_region: "NY", country_code: "US" },
+      price_level: 3,
+      business_rating: 4.8
+    }, [TAGS.fitness, TAGS.socialClub]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E05", "Bode Yoga Studio", 0.61, { lat: 40.6872, lon: -73.9903 }, {
+      address: "306 Court St, Brooklyn, NY 11231",
+      geocode: { city: "Brooklyn", admin1_region: "NY", country_code: "US" },
+      price_level: 3,
+      business_rating: 4.9
+    }, [TAGS.fitness, TAGS.yoga, TAGS.mindfulness]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E06", "Rough Trade NYC", 0.8, { lat: 40.7214, lon: -73.9578 }, {
+      address: "64 N 9th St, Brooklyn, NY 11249",
+      geocode: { city: "Brooklyn", admin1_region: "NY", country_code: "US" },
+      price_level: 2,
+      business_rating: 4.5
+    }, [TAGS.vinyl, TAGS.indieMusic, TAGS.liveMusic]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E07", "Brooklyn Brewery", 0.86, { lat: 40.7216, lon: -73.9571 }, {
+      address: "79 N 11th St, Brooklyn, NY 11249",
+      geocode: { city: "Brooklyn", admin1_region: "NY", country_code: "US" },
+      price_level: 2,
+      business_rating: 4.6
+    }, [TAGS.craftBeer, TAGS.socialClub]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E08", "Jester King Brewery", 0.82, { lat: 30.2316, lon: -97.9617 }, {
+      address: "13187 Fitzhugh Rd, Austin, TX 78736",
+      geocode: { city: "Austin", admin1_region: "TX", country_code: "US" },
+      price_level: 2,
+      business_rating: 4.7
+    }, [TAGS.craftBeer, TAGS.outdoors, TAGS.sustainability]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E09", "Capital Factory", 0.69, { lat: 30.2691, lon: -97.7404 }, {
+      address: "701 Brazos St, Austin, TX 78701",
+      geocode: { city: "Austin", admin1_region: "TX", country_code: "US" },
+      price_level: 3,
+      business_rating: 4.5
+    }, [TAGS.coworking, TAGS.entrepreneurship]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E10", "Merit Coffee", 0.66, { lat: 30.2486, lon: -97.7503 }, {
+      address: "1105 S Lamar Blvd, Austin, TX 78704",
+      geocode: { city: "Austin", admin1_region: "TX", country_code: "US" },
+      price_level: 1,
+      business_rating: 4.6
+    }, [TAGS.coffee, TAGS.specialtyCoffee]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E11", "Ritual Coffee Roasters", 0.79, { lat: 37.7565, lon: -122.4213 }, {
+      address: "1026 Valencia St, San Francisco, CA 94110",
+      geocode: { city: "San Francisco", admin1_region: "CA", country_code: "US" },
+      price_level: 2,
+      business_rating: 4.4
+    }, [TAGS.coffee, TAGS.specialtyCoffee, TAGS.design]),
+    place("0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E12", "Rintaro", 0.72, { lat: 37.7683, lon: -122.4148 }, {
+      address: "82 14th St, San Francisco, CA 94103",
+      geocode: { city: "San Francisco", admin1_region: "CA", country_code: "US" },
+      price_level: 3,
+      business_rating: 4.6
+    }, [TAGS.japanese, TAGS.design]),
+    entity("urn:entity:artist", "1C4F5D2B-8A3E-4D4C-8F2B-2B3C4D5E6F01", "Phoebe Bridgers", 0.88, {
+      short_description: "Indie rock singer-songwriter"
+    }, [TAGS.indieMusic]),
+    entity("urn:entity:artist", "1C4F5D2B-8A3E-4D4C-8F2B-2B3C4D5E6F02", "Khruangbin", 0.83, {
+      short_description: "Psychedelic soul trio from Houston"
+    }, [TAGS.indieMusic, TAGS.vinyl]),
+    entity("urn:entity:book", "2D5A6E3C-9B4F-4E5D-9A3C-3C4D5E6F7A01", "Atomic Habits", 0.95, {
+      author: "James Clear",
+      publication_year: 2018,
+      page_count: 320
+    }, [TAGS.fitness, TAGS.mindfulness, TAGS.entrepreneurship]),
+    entity("urn:entity:book", "2D5A6E3C-9B4F-4E5D-9A3C-3C4D5E6F7A02", "The Lean Startup", 0.9, {
+      author: "Eric Ries",
+      publication_year: 2011,
+      page_count: 336
+    }, [TAGS.entrepreneurship]),
+    entity("urn:entity:book", "2D5A6E3C-9B4F-4E5D-9A3C-3C4D5E6F7A03", "The Design of Everyday Things", 0.81, {
+      author: "Don Norman",
+      publication_year: 1988,
+      page_count: 368
+    }, [TAGS.design]),
+    entity("urn:entity:podcast", "3E6B7F4D-AC5A-4F6E-AB4D-4D5E6F7A8B01", "How I Built This", 0.87, {
+      publisher: "NPR",
+      episode_count: 600
+    }, [TAGS.entrepreneurship, TAGS.sustainability]),
+    entity("urn:entity:podcast", "3E6B7F4D-AC5A-4F6E-AB4D-4D5E6F7A8B02", "Ten Percent Happier", 0.74, {
+      publisher: "Ten Percent Happier",
+      episode_count: 700
+    }, [TAGS.mindfulness]),
+    entity("urn:entity:movie", "4F7C8A5E-BD6B-4A7F-BC5E-5E6F7A8B9C01", "Jiro Dreams of Sushi", 0.76, {
+      release_year: 2011,
+      content_rating: "PG",
+      duration: 81
+    }, [TAGS.japanese, TAGS.documentary, TAGS.design]),
+    entity("urn:entity:movie", "4F7C8A5E-BD6B-4A7F-BC5E-5E6F7A8B9C02", "Free Solo", 0.85, {
+      release_year: 2018,
+      content_rating: "PG-13",
+      duration: 100
+    }, [TAGS.outdoors, TAGS.documentary, TAGS.fitness]),
+    entity("urn:entity:brand", "5A8D9B6F-CE7C-4B8A-CD6F-6F7A8B9CAD01", "Patagonia", 0.89, {
+      industry: "Outdoor apparel"
+    }, [TAGS.outdoors, TAGS.sustainability]),
+    entity("urn:entity:brand", "5A8D9B6F-CE7C-4B8A-CD6F-6F7A8B9CAD02", "Allbirds", 0.71, {
+      industry: "Footwear"
+    }, [TAGS.sustainability, TAGS.design]),
+    entity("urn:entity:destination", "6B9EAC7A-DF8D-4C9B-DE7A-7A8B9CADBE01", "Kyoto", 0.9, {
+      geocode: { country_code: "JP" }
+    }, [TAGS.japanese, TAGS.artCulture]),
+    entity("urn:entity:destination", "6B9EAC7A-DF8D-4C9B-DE7A-7A8B9CADBE02", "Marfa", 0.62, {
+      geocode: { admin1_region: "TX", country_code: "US" }
+    }, [TAGS.artCulture, TAGS.design, TAGS.outdoors])
+  ],
+  tags: Object.values(TAGS),
+  audiences: [
+    { id: "urn:audience:lifestyle_preferences_beliefs:fitness_enthusiasts", name: "Fitness Enthusiasts", type: "urn:audience:lifestyle_preferences_beliefs" },
+    { id: "urn:audience:lifestyle_preferences_beliefs:environmentalists", name: "Environmentalists", type: "urn:audience:lifestyle_preferences_beliefs" },
+    { id: "urn:audience:professional_area:entrepreneurs", name: "Entrepreneurs", type: "urn:audience:professional_area" },
+    { id: "urn:audience:hobbies_interests:music_lovers", name: "Music Lovers", type: "urn:audience:hobbies_interests" }
+  ],
+  trends: [
+    { entity_id: "0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E02", score: 0.92, velocity: 0.35 },
+    { entity_id: "0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E04", score: 0.81, velocity: 0.22 },
+    { entity_id: "0B3E4C1A-7F2D-4C3B-9E1A-1A2B3C4D5E09", score: 0.64, velocity: -0.05 },
+    { entity_id: "2D5A6E3C-9B4F-4E5D-9A3C-3C4D5E6F7A01", score: 0.88, velocity: 0.1 },
+    { entity_id: "4F7C8A5E-BD6B-4A7F-BC5E-5E6F7A8B9C02", score: 0.7, velocity: 0.18 },
+    { entity_id: "6B9EAC7A-DF8D-4C9B-DE7A-7A8B9CADBE02", score: 0.58, velocity: 0.41 },
+    { entity_id: "1C4F5D2B-8A3E-4D4C-8F2B-2B3C4D5E6F02", score: 0.77, velocity: 0.12 }
+  ],
+  trendWindow: { start: "2025-07-01", end: "2025-07-31" }
+};
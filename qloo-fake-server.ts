@@ -0,0 +1,342 @@
+import * as http from "http";
+import {
+  DEFAULT_FAKE_FIXTURES,
+  FakeQlooEntity,
+  FakeQlooFixtures
+} from "./qloo-fake-fixtures";
+import {
+  decodeGeohashBounds,
+  encodeGeohash,
+  haversineMeters,
+  isPointInPolygon,
+  tryParseGeoShape
+} from "./qloo-geo";
+
+// In-process stand-in for the Qloo API, answering the endpoints QlooClient uses from fixture data.
+// Pass `server.fetch` as the client's transport for fully offline runs, or `listen()` on a port
+// and point QLOO_BASE_URL at it to drive the CLI scripts.
+//
+// Results are deterministic: affinity is derived from tag overlap with the request's signals,
+// so the same request always returns the same ranking.
+
+export const FAKE_QLOO_BASE_URL = "http://fake.qloo.local";
+
+type FakeRoute = (params: URLSearchParams) => { status: number; body: unknown };
+
+// Comma-separated, or Qloo's weighted object form: [{"entity": "...", "weight": 2}]
+function list(params: URLSearchParams, key: string): string[] {
+  const value = params.get(key);
+  if (value?.startsWith('[')) {
+    const items: Array<string | { entity?: string; id?: string }> = JSON.parse(value);
+    return items.map(item => typeof item === 'string' ? item : item.entity || item.id || '').filter(Boolean);
+  }
+  return value ? value.split(',').map(v => v.trim()).filter(Boolean) : [];
+}
+
+function number(params: URLSearchParams, key: string): number | undefined {
+  const value = params.get(key);
+  return value === null ? undefined : Number(value);
+}
+
+function paginate<T>(items: T[], params: URLSearchParams): T[] {
+  const take = number(params, 'take') || 20;
+  const page = number(params, 'page') || 1;
+  return items.slice((page - 1) * take, page * take);
+}
+
+function badRequest(message: string) {
+  return { status: 400, body: { success: false, error: { message } } };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export class FakeQlooServer {
+  private routes: Record<string, FakeRoute>;
+
+  constructor(private fixtures: FakeQlooFixtures = DEFAULT_FAKE_FIXTURES) {
+    this.routes = {
+      '/search': params => this.search(params),
+      '/entities': params => this.entities(params),
+      '/v2/insights': params => this.insights(params),
+      '/v2/insights/compare': params => this.compare(params),
+      '/v2/tags': params => this.tags(params),
+      '/v2/audiences': params => this.audiences(params),
+      '/trends/category': params => this.trends(params)
+    };
+  }
+
+  // Drop-in replacement for the global fetch
+  fetch = async (input: string | URL | Request, _init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const { status, body } = this.handle(url);
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+
+  handle(url: URL): { status: number; body: unknown } {
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+    const route = this.routes[path];
+    if (!route) {
+      return { status: 404, body: { success: false, error: { message: `Unknown endpoint ${path}` } } };
+    }
+    return route(url.searchParams);
+  }
+
+  // Serve the fake API over HTTP, e.g. for `QLOO_BASE_URL=http://localhost:4010 ./test-qloo.sh all`
+  listen(port = 0): Promise<{ url: string; close: () => Promise<void> }> {
+    const server = http.createServer((req, res) => {
+      const { status, body } = this.handle(new URL(req.url || '/', 'http://localhost'));
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+
+    return new Promise(resolve => {
+      server.listen(port, () => {
+        const address = server.address();
+        const boundPort = typeof address === 'object' && address ? address.port : port;
+        resolve({
+          url: `http://localhost:${boundPort}`,
+          close: () => new Promise(done => server.close(() => done()))
+        });
+      });
+    });
+  }
+
+  private findEntity(id: string): FakeQlooEntity | undefined {
+    return this.fixtures.entities.find(e => e.entity_id === id);
+  }
+
+  private search(params: URLSearchParams) {
+    const query = params.get('query');
+    if (!query) {
+      return badRequest('query is required');
+    }
+
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const types = list(params, 'types');
+
+    const matches = this.fixtures.entities.filter(entity => {
+      if (types.length && !entity.types.some(t => types.includes(t))) {
+        return false;
+      }
+      const haystack = [entity.name, ...entity.tags.map(t => t.name)].join(' ').toLowerCase();
+      return terms.some(term => haystack.includes(term));
+    });
+
+    const results = matches
+      .sort((a, b) => b.popularity - a.popularity)
+      .map(({ subtype, ...entity }) => entity);
+
+    return { status: 200, body: { results: paginate(results, params) } };
+  }
+
+  private entities(params: URLSearchParams) {
+    const ids = list(params, 'entity_ids');
+    if (!ids.length) {
+      return badRequest('entity_ids is required');
+    }
+
+    const results = ids
+      .map(id => this.findEntity(id))
+      .filter(Boolean)
+      .map(entity => {
+        const { subtype, ...raw } = entity as FakeQlooEntity;
+        return raw;
+      });
+
+    return { status: 200, body: { success: true, results } };
+  }
+
+  private insights(params: URLSearchParams) {
+    const filterType = params.get('filter.type');
+    if (!filterType) {
+      return badRequest('filter.type is required');
+    }
+
+    // Heatmaps score places, then aggregate them per cell
+    const heatmap = filterType === 'urn:heatmap';
+    const entityType = heatmap ? 'urn:entity:place' : filterType;
+
+    // Tags the request's signals point at, either directly or through signal entities
+    const signalTags = new Set(list(params, 'signal.interests.tags'));
+    for (const id of list(params, 'signal.interests.entities')) {
+      this.findEntity(id)?.tags.forEach(tag => signalTags.add(tag.id));
+    }
+
+    const filterTags = list(params, 'filter.tags');
+    const matchAllTags = params.get('operator.filter.tags') === 'intersection';
+    const resultEntities = list(params, 'filter.results.entities');
+    const excludeEntities = list(params, 'filter.exclude.entities');
+    const excludeTags = list(params, 'filter.exclude.tags');
+    const contentRatings = list(params, 'filter.content_rating');
+    const area = params.get('filter.location') ? tryParseGeoShape(params.get('filter.location')!) : null;
+    const areaRadius = number(params, 'filter.location.radius');
+    const inArea = (entity: FakeQlooEntity) => {
+      if (!area) return true;
+      if (!entity.location) return false;
+      return area.kind === 'polygon'
+        ? isPointInPolygon(entity.location, area.polygon)
+        : areaRadius === undefined || haversineMeters(area.point, entity.location) <= areaRadius;
+    };
+    const locationQuery = (params.get('filter.location.query') || '').toLowerCase();
+    const range = (key: string, value: number | undefined) => {
+      const min = number(params, `${key}.min`);
+      const max = number(params, `${key}.max`);
+      if (min === undefined && max === undefined) return true;
+      if (value === undefined) return false;
+      return (min === undefined || value >= min) && (max === undefined || value <= max);
+    };
+
+    const candidates = this.fixtures.entities.filter(entity => {
+      const { properties } = entity;
+      const city = (properties.geocode?.city || '').toLowerCase();
+      const tagIds = entity.tags.map(t => t.id);
+      const tagsMatch = matchAllTags
+        ? filterTags.every(id => tagIds.includes(id))
+        : !filterTags.length || filterTags.some(id => tagIds.includes(id));
+      return entity.types.includes(entityType)
+        && tagsMatch
+        && inArea(entity)
+        && (!resultEntities.length || resultEntities.includes(entity.entity_id))
+        && !excludeEntities.includes(entity.entity_id)
+        && !excludeTags.some(id => tagIds.includes(id))
+        && (!contentRatings.length || contentRatings.includes(properties.content_rating))
+        && (!locationQuery || !city || locationQuery.includes(city))
+        && range('filter.price_level', properties.price_level)
+        && range('filter.rating', properties.business_rating)
+        && range('filter.popularity', entity.popularity)
+        && range('filter.release_year', properties.release_year)
+        && range('filter.publication_year', properties.publication_year);
+    });
+
+    const explain = params.get('feature.explainability') === 'true';
+    const scored = candidates.map(({ subtype, ...entity }) => {
+      const overlap = entity.tags.filter(tag => signalTags.has(tag.id)).length;
+      const tagScore = signalTags.size ? overlap / Math.min(signalTags.size, entity.tags.length) : 0;
+      const affinity = round(0.4 * entity.popularity + 0.6 * tagScore);
+      return {
+        ...entity,
+        subtype,
+        query: explain ? { affinity, explainability: this.explainability(entity, params) } : { affinity }
+      };
+    }).sort((a, b) => b.query.affinity - a.query.affinity || a.name.localeCompare(b.name));
+
+    if (heatmap) {
+      return { status: 200, body: { success: true, results: { heatmap: this.heatmapCells(scored) } } };
+    }
+
+    return {
+      status: 200,
+      body: { success: true, results: { entities: paginate(scored, params) } }
+    };
+  }
+
+  // Each signal's share of the result's tags, in Qloo's per-result explainability shape
+  private explainability(entity: FakeQlooEntity, params: URLSearchParams) {
+    const tagIds = new Set(entity.tags.map(tag => tag.id));
+    const share = (tags: string[]) => round(tags.filter(id => tagIds.has(id)).length / Math.max(1, tagIds.size));
+
+    return {
+      'signal.interests.entities': list(params, 'signal.interests.entities')
+        .map(id => ({ entity_id: id, score: share(this.findEntity(id)?.tags.map(tag => tag.id) || []) }))
+        .filter(item => item.score > 0),
+      'signal.interests.tags': list(params, 'signal.interests.tags')
+        .map(id => ({ tag_id: id, score: share([id]) }))
+        .filter(item => item.score > 0)
+    };
+  }
+
+  // Precision-6 geohash cells; a cell's affinity is its best place, popularity the mean
+  private heatmapCells(places: Array<FakeQlooEntity & { query: { affinity: number } }>) {
+    const cells = new Map<string, typeof places>();
+    for (const place of places) {
+      if (!place.location) continue;
+      const geohash = encodeGeohash(place.location, 6);
+      cells.set(geohash, [...(cells.get(geohash) || []), place]);
+    }
+
+    return [...cells.entries()]
+      .map(([geohash, members]) => {
+        const { south, west, north, east } = decodeGeohashBounds(geohash);
+        return {
+          location: { latitude: round((south + north) / 2), longitude: round((west + east) / 2), geohash },
+          query: {
+            affinity: Math.max(...members.map(p => p.query.affinity)),
+            popularity: round(members.reduce((sum, p) => sum + p.popularity, 0) / members.length)
+          }
+        };
+      })
+      .sort((a, b) => b.query.affinity - a.query.affinity)
+      .map((cell, index) => ({ ...cell, query: { ...cell.query, affinity_rank: index + 1 } }));
+  }
+
+  private compare(params: URLSearchParams) {
+    const groupA = list(params, 'a.signal.interests.entities').map(id => this.findEntity(id)).filter(Boolean) as FakeQlooEntity[];
+    const groupB = list(params, 'b.signal.interests.entities').map(id => this.findEntity(id)).filter(Boolean) as FakeQlooEntity[];
+    if (!groupA.length || !groupB.length) {
+      return badRequest('both comparison groups need at least one known entity');
+    }
+
+    // Affinity of a tag for a group is the share of the group's entities carrying it
+    const tagAffinity = (group: FakeQlooEntity[], tagId: string) =>
+      round(group.filter(e => e.tags.some(t => t.id === tagId)).length / group.length);
+
+    const tags = this.fixtures.tags
+      .map(tag => ({
+        tag_id: tag.id,
+        name: tag.name,
+        subtype: tag.type,
+        query: { a: { affinity: tagAffinity(groupA, tag.id) }, b: { affinity: tagAffinity(groupB, tag.id) } }
+      }))
+      .filter(tag => tag.query.a.affinity > 0 || tag.query.b.affinity > 0);
+
+    return { status: 200, body: { success: true, results: { tags: paginate(tags, params) } } };
+  }
+
+  private tags(params: URLSearchParams) {
+    const query = (params.get('filter.query') || '').toLowerCase();
+    const tagTypes = list(params, 'filter.tag.types');
+
+    const tags = this.fixtures.tags.filter(tag =>
+      (!query || tag.name.toLowerCase().includes(query) || tag.id.includes(query))
+      && (!tagTypes.length || tagTypes.includes(tag.type))
+    );
+
+    return { status: 200, body: { success: true, results: { tags: paginate(tags, params) } } };
+  }
+
+  private audiences(params: URLSearchParams) {
+    const audienceTypes = list(params, 'filter.audience.types');
+    const audiences = this.fixtures.audiences.filter(a => !audienceTypes.length || audienceTypes.includes(a.type));
+    return { status: 200, body: { success: true, results: { audiences: paginate(audiences, params) } } };
+  }
+
+  private trends(params: URLSearchParams) {
+    const type = params.get('type');
+    if (!type) {
+      return badRequest('type is required');
+    }
+
+    const results = this.fixtures.trends
+      .map(trend => ({ trend, entity: this.findEntity(trend.entity_id) }))
+      .filter(({ entity }) => entity?.types.includes(type))
+      .sort((a, b) => b.trend.score - a.trend.score)
+      .map(({ trend, entity }) => {
+        const { subtype, ...raw } = entity as FakeQlooEntity;
+        return {
+          ...raw,
+          trend: {
+            score: trend.score,
+            velocity: trend.velocity,
+            window: this.fixtures.trendWindow
+          }
+        };
+      });
+
+    return { status: 200, body: { results: paginate(results, params) } };
+  }
+}
@@ -0,0 +1,136 @@
+import type { QlooInsightsOptions } from "./qloo-client";
+
+// What users told us about recommendations (loved it, went there, never show it again), turned
+// into insights parameters: positive feedback becomes weighted entity signals, negative feedback
+// excludes the entity, and what the user has already been to stops being recommended. Every
+// reaction fades with age, so old tastes stop steering results.
+
+export type FeedbackReaction = 'loved' | 'liked' | 'visited' | 'disliked' | 'rejected';
+
+export interface EntityFeedback {
+  entityId: string;
+  name?: string;
+  type?: string;
+  reaction: FeedbackReaction;
+  at: string; // ISO timestamp
+}
+
+export interface QlooWeightedEntity {
+  id: string;
+  weight: number; // Relative; plain entity signals count as 1
+}
+
+export interface QlooFeedbackSignals {
+  entities: QlooWeightedEntity[]; // Strongest first
+  excludeEntities: string[]; // Disliked or rejected: neither signals nor results
+  seenEntities: string[]; // Visited or loved: still signals, but not recommended again
+}
+
+export interface FeedbackDecayOptions {
+  positiveHalfLifeDays?: number; // Default 30
+  negativeHalfLifeDays?: number; // Default 180; rejections should outlast a change of mood
+  minWeight?: number; // Reactions that faded below this no longer count (default 0.1)
+  maxSignals?: number; // Default 10
+  now?: Date;
+}
+
+// Positive reactions to the same entity add up; a negative one overrides everything before it
+const REACTION_WEIGHTS: Record<FeedbackReaction, number> = {
+  loved: 1,
+  liked: 0.6,
+  visited: 0.4,
+  disliked: -0.6,
+  rejected: -1
+};
+
+const SEEN_REACTIONS: FeedbackReaction[] = ['visited', 'loved'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function decayed(feedback: EntityFeedback, options: Required<FeedbackDecayOptions>): number {
+  const base = REACTION_WEIGHTS[feedback.reaction];
+  const halfLife = base > 0 ? options.positiveHalfLifeDays : options.negativeHalfLifeDays;
+  const ageDays = Math.max(0, (options.now.getTime() - new Date(feedback.at).getTime()) / DAY_MS);
+  return base * Math.pow(0.5, ageDays / halfLife);
+}
+
+function withDefaults(options: FeedbackDecayOptions): Required<FeedbackDecayOptions> {
+  return {
+    positiveHalfLifeDays: options.positiveHalfLifeDays ?? 30,
+    negativeHalfLifeDays: options.negativeHalfLifeDays ?? 180,
+    minWeight: options.minWeight ?? 0.1,
+    maxSignals: options.maxSignals ?? 10,
+    now: options.now ?? new Date()
+  };
+}
+
+// An entity's latest negative reaction excludes it until the reaction fades, whatever the user said
+// before it; only positive reactions after that one count. Those add up to the entity's weight.
+export function feedbackSignals(feedback: EntityFeedback[], options: FeedbackDecayOptions = {}): QlooFeedbackSignals {
+  const settings = withDefaults(options);
+  const byEntity = new Map<string, EntityFeedback[]>();
+  [...feedback]
+    .sort((a, b) => a.at.localeCompare(b.at))
+    .forEach(item => byEntity.set(item.entityId, [...(byEntity.get(item.entityId) || []), item]));
+
+  const weighted: QlooWeightedEntity[] = [];
+  const excludeEntities: string[] = [];
+  const seenEntities: string[] = [];
+  for (const [id, reactions] of byEntity) {
+    const lastNegative = reactions.map(item => REACTION_WEIGHTS[item.reaction] < 0).lastIndexOf(true);
+    const positive = reactions.slice(lastNegative + 1);
+    if (!positive.length) {
+      if (-decayed(reactions[lastNegative], settings) >= settings.minWeight) {
+        excludeEntities.push(id);
+      }
+      continue;
+    }
+
+    const weight = positive.reduce((sum, item) => sum + decayed(item, settings), 0);
+    if (weight >= settings.minWeight) {
+      weighted.push({ id, weight: Math.round(Math.min(1, weight) * 100) / 100 });
+    }
+    if (positive.some(item => SEEN_REACTIONS.includes(item.reaction) && decayed(item, settings) >= settings.minWeight)) {
+      seenEntities.push(id);
+    }
+  }
+
+  return {
+    entities: weighted.sort((a, b) => b.weight - a.weight).slice(0, settings.maxSignals),
+    excludeEntities,
+    seenEntities
+  };
+}
+
+// Feedback older than this has faded below minWeight whatever the reaction, so stores needn't load it
+export function feedbackHorizon(options: FeedbackDecayOptions = {}): Date {
+  const settings = withDefaults(options);
+  const longestHalfLife = Math.max(settings.positiveHalfLifeDays, settings.negativeHalfLifeDays);
+  return new Date(settings.now.getTime() - longestHalfLife * Math.log2(1 / settings.minWeight) * DAY_MS);
+}
+
+// Insights options with the feedback folded in. Feedback weights override an entity's plain signal,
+// excluded entities are dropped from the signals as well as filtered out of the results, and seen
+// ones are only filtered out.
+export function applyFeedback<T extends QlooInsightsOptions>(options: T, feedback?: QlooFeedbackSignals): T {
+  if (!feedback || (!feedback.entities.length && !feedback.excludeEntities.length && !feedback.seenEntities.length)) {
+    return options;
+  }
+
+  const excluded = new Set(feedback.excludeEntities);
+  const weighted = new Map((options.signals?.weightedEntities || []).map(entity => [entity.id, entity]));
+  feedback.entities.forEach(entity => weighted.set(entity.id, entity));
+
+  return {
+    ...options,
+    signals: {
+      ...options.signals,
+      entities: options.signals?.entities?.filter(id => !excluded.has(id) && !weighted.has(id)),
+      weightedEntities: [...weighted.values()].filter(entity => !excluded.has(entity.id))
+    },
+    filters: {
+      ...options.filters,
+      excludeEntities: [...new Set([...(options.filters?.excludeEntities || []), ...excluded, ...feedback.seenEntities])]
+    }
+  };
+}
@@ -0,0 +1,234 @@
+// Bundled place data for the offline gazetteer: major cities and well-known neighborhoods
+// with approximate centroids. Populations only rank otherwise equal matches, so they are rounded.
+
+export type GazetteerPlaceKind = 'city' | 'neighborhood';
+
+export interface GazetteerPlace {
+  name: string;
+  kind: GazetteerPlaceKind;
+  city?: string; // Parent city, for neighborhoods
+  region?: string; // State / province code, e.g. "NY", "ON"
+  country: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lon: number;
+  population?: number;
+  aliases?: string[];
+}
+
+// Names accepted for region and country codes in queries like "Austin, Texas" or "Paris, France"
+export const REGION_NAMES: Record<string, string[]> = {
+  AL: ["Alabama"], AK: ["Alaska"], AZ: ["Arizona"], AR: ["Arkansas"], CA: ["California"],
+  CO: ["Colorado"], CT: ["Connecticut"], DC: ["District of Columbia"], DE: ["Delaware"], FL: ["Florida"],
+  GA: ["Georgia"], HI: ["Hawaii"], ID: ["Idaho"], IL: ["Illinois"], IN: ["Indiana"],
+  IA: ["Iowa"], KS: ["Kansas"], KY: ["Kentucky"], LA: ["Louisiana"], ME: ["Maine"],
+  MD: ["Maryland"], MA: ["Massachusetts"], MI: ["Michigan"], MN: ["Minnesota"], MS: ["Mississippi"],
+  MO: ["Missouri"], MT: ["Montana"], NE: ["Nebraska"], NV: ["Nevada"], NH: ["New Hampshire"],
+  NJ: ["New Jersey"], NM: ["New Mexico"], NY: ["New York"], NC: ["North Carolina"], ND: ["North Dakota"],
+  OH: ["Ohio"], OK: ["Oklahoma"], OR: ["Oregon"], PA: ["Pennsylvania"], RI: ["Rhode Island"],
+  SC: ["South Carolina"], SD: ["South Dakota"], TN: ["Tennessee"], TX: ["Texas"], UT: ["Utah"],
+  VT: ["Vermont"], VA: ["Virginia"], WA: ["Washington"], WV: ["West Virginia"], WI: ["Wisconsin"],
+  WY: ["Wyoming"],
+  ON: ["Ontario"], BC: ["British Columbia"], QC: ["Quebec"]
+};
+
+export const COUNTRY_NAMES: Record<string, string[]> = {
+  US: ["United States", "USA", "America"],
+  GB: ["United Kingdom", "UK", "England"],
+  CA: ["Canada"],
+  MX: ["Mexico"],
+  FR: ["France"],
+  DE: ["Germany"],
+  NL: ["Netherlands"],
+  ES: ["Spain"],
+  PT: ["Portugal"],
+  IT: ["Italy"],
+  IE: ["Ireland"],
+  DK: ["Denmark"],
+  JP: ["Japan"],
+  KR: ["South Korea", "Korea"],
+  SG: ["Singapore"],
+  AU: ["Australia"]
+};
+
+function city(
+  name: string,
+  region: string | undefined,
+  country: string,
+  lat: number,
+  lon: number,
+  population: number,
+  aliases?: string[]
+): GazetteerPlace {
+  return { name, kind: 'city', region, country, lat, lon, population, aliases };
+}
+
+function neighborhood(
+  name: string,
+  parent: string,
+  region: string | undefined,
+  country: string,
+  lat: number,
+  lon: number,
+  aliases?: string[]
+): GazetteerPlace {
+  return { name, kind: 'neighborhood', city: parent, region, country, lat, lon, aliases };
+}
+
+export const DEFAULT_GAZETTEER_PLACES: GazetteerPlace[] = [
+  // United States
+  city("New York", "NY", "US", 40.7128, -74.006, 8300000, ["NYC", "New York City"]),
+  city("Los Angeles", "CA", "US", 34.0522, -118.2437, 3900000, ["LA"]),
+  city("Chicago", "IL", "US", 41.8781, -87.6298, 2700000),
+  city("Houston", "TX", "US", 29.7604, -95.3698, 2300000),
+  city("Phoenix", "AZ", "US", 33.4484, -112.074, 1600000),
+  city("Philadelphia", "PA", "US", 39.9526, -75.1652, 1600000, ["Philly"]),
+  city("San Antonio", "TX", "US", 29.4241, -98.4936, 1400000),
+  city("San Diego", "CA", "US", 32.7157, -117.1611, 1400000),
+  city("Dallas", "TX", "US", 32.7767, -96.797, 1300000),
+  city("San Jose", "CA", "US", 37.3382, -121.8863, 1000000),
+  city("Austin", "TX", "US", 30.2672, -97.7431, 960000, ["ATX"]),
+  city("Jacksonville", "FL", "US", 30.3322, -81.6557, 950000),
+  city("Fort Worth", "TX", "US", 32.7555, -97.3308, 920000),
+  city("Columbus", "OH", "US", 39.9612, -82.9988, 900000),
+  city("Columbus", "GA", "US", 32.461, -84.9877, 200000),
+  city("Charlotte", "NC", "US", 35.2271, -80.8431, 870000),
+  city("San Francisco", "CA", "US", 37.7749, -122.4194, 810000, ["SF", "San Fran"]),
+  city("Indianapolis", "IN", "US", 39.7684, -86.1581, 880000),
+  city("Seattle", "WA", "US", 47.6062, -122.3321, 740000),
+  city("Denver", "CO", "US", 39.7392, -104.9903, 710000),
+  city("Washington", "DC", "US", 38.9072, -77.0369, 680000, ["DC", "Washington DC"]),
+  city("Boston", "MA", "US", 42.3601, -71.0589, 650000),
+  city("Nashville", "TN", "US", 36.1627, -86.7816, 690000),
+  city("Detroit", "MI", "US", 42.3314, -83.0458, 630000),
+  city("Portland", "OR", "US", 45.5152, -122.6784, 630000, ["PDX"]),
+  city("Portland", "ME", "US", 43.6591, -70.2568, 68000),
+  city("Las Vegas", "NV", "US", 36.1699, -115.1398, 650000, ["Vegas"]),
+  city("Memphis", "TN", "US", 35.1495, -90.049, 620000),
+  city("Louisville", "KY", "US", 38.2527, -85.7585, 620000),
+  city("Baltimore", "MD", "US", 39.2904, -76.6122, 570000),
+  city("Milwaukee", "WI", "US", 43.0389, -87.9065, 570000),
+  city("Albuquerque", "NM", "US", 35.0844, -106.6504, 560000),
+  city("Tucson", "AZ", "US", 32.2226, -110.9747, 540000),
+  city("Sacramento", "CA", "US", 38.5816, -121.4944, 520000),
+  city("Kansas City", "MO", "US", 39.0997, -94.5786, 510000, ["KC"]),
+  city("Atlanta", "GA", "US", 33.749, -84.388, 500000, ["ATL"]),
+  city("Miami", "FL", "US", 25.7617, -80.1918, 440000),
+  city("Minneapolis", "MN", "US", 44.9778, -93.265, 430000),
+  city("New Orleans", "LA", "US", 29.9511, -90.0715, 380000, ["NOLA"]),
+  city("Oakland", "CA", "US", 37.8044, -122.2712, 430000),
+  city("Pittsburgh", "PA", "US", 40.4406, -79.9959, 300000),
+  city("Salt Lake City", "UT", "US", 40.7608, -111.891, 200000, ["SLC"]),
+  city("Raleigh", "NC", "US", 35.7796, -78.6382, 470000),
+  city("Orlando", "FL", "US", 28.5383, -81.3792, 310000),
+  city("Tampa", "FL", "US", 27.9506, -82.4572, 390000),
+  city("St. Louis", "MO", "US", 38.627, -90.1994, 290000, ["Saint Louis"]),
+  city("Cincinnati", "OH", "US", 39.1031, -84.512, 310000),
+  city("Cleveland", "OH", "US", 41.4993, -81.6944, 370000),
+  city("Honolulu", "HI", "US", 21.3069, -157.8583, 350000),
+  city("Springfield", "MO", "US", 37.209, -93.2923, 170000),
+  city("Springfield", "MA", "US", 42.1015, -72.5898, 155000),
+  city("Springfield", "IL", "US", 39.7817, -89.6501, 114000),
+  city("Cambridge", "MA", "US", 42.3736, -71.1097, 118000),
+  city("Boulder", "CO", "US", 40.015, -105.2705, 105000),
+  city("Asheville", "NC", "US", 35.5951, -82.5515, 94000),
+
+  // International
+  city("London", undefined, "GB", 51.5072, -0.1276, 8900000),
+  city("London", "ON", "CA", 42.9849, -81.2453, 420000),
+  city("Cambridge", undefined, "GB", 52.2053, 0.1218, 145000),
+  city("Paris", undefined, "FR", 48.8566, 2.3522, 2100000),
+  city("Berlin", undefined, "DE", 52.52, 13.405, 3700000),
+  city("Amsterdam", undefined, "NL", 52.3676, 4.9041, 880000),
+  city("Barcelona", undefined, "ES", 41.3874, 2.1686, 1600000),
+  city("Madrid", undefined, "ES", 40.4168, -3.7038, 3300000),
+  city("Lisbon", undefined, "PT", 38.7223, -9.1393, 550000, ["Lisboa"]),
+  city("Rome", undefined, "IT", 41.9028, 12.4964, 2800000, ["Roma"]),
+  city("Dublin", undefined, "IE", 53.3498, -6.2603, 590000),
+  city("Copenhagen", undefined, "DK", 55.6761, 12.5683, 640000),
+  city("Tokyo", undefined, "JP", 35.6762, 139.6503, 14000000),
+  city("Seoul", undefined, "KR", 37.5665, 126.978, 9700000),
+  city("Singapore", undefined, "SG", 1.3521, 103.8198, 5600000),
+  city("Sydney", undefined, "AU", -33.8688, 151.2093, 5300000),
+  city("Melbourne", undefined, "AU", -37.8136, 144.9631, 5000000),
+  city("Toronto", "ON", "CA", 43.6532, -79.3832, 2800000),
+  city("Vancouver", "BC", "CA", 49.2827, -123.1207, 660000),
+  city("Montreal", "QC", "CA", 45.5019, -73.5674, 1800000, ["Montréal"]),
+  city("Mexico City", undefined, "MX", 19.4326, -99.1332, 9200000, ["CDMX"]),
+
+  // New York
+  neighborhood("Brooklyn", "New York", "NY", "US", 40.6782, -73.9442),
+  neighborhood("Manhattan", "New York", "NY", "US", 40.7831, -73.9712),
+  neighborhood("Queens", "New York", "NY", "US", 40.7282, -73.7949),
+  neighborhood("The Bronx", "New York", "NY", "US", 40.8448, -73.8648, ["Bronx"]),
+  neighborhood("Staten Island", "New York", "NY", "US", 40.5795, -74.1502),
+  neighborhood("Williamsburg", "New York", "NY", "US", 40.7081, -73.9571),
+  neighborhood("Bushwick", "New York", "NY", "US", 40.6944, -73.9213),
+  neighborhood("Greenpoint", "New York", "NY", "US", 40.7304, -73.9515),
+  neighborhood("Park Slope", "New York", "NY", "US", 40.671, -73.9814),
+  neighborhood("DUMBO", "New York", "NY", "US", 40.7033, -73.9881),
+  neighborhood("Bed-Stuy", "New York", "NY", "US", 40.6872, -73.9418, ["Bedford-Stuyvesant"]),
+  neighborhood("Astoria", "New York", "NY", "US", 40.7644, -73.9235),
+  neighborhood("Long Island City", "New York", "NY", "US", 40.7447, -73.9485, ["LIC"]),
+  neighborhood("Harlem", "New York", "NY", "US", 40.8116, -73.9465),
+  neighborhood("SoHo", "New York", "NY", "US", 40.7233, -74.003),
+  neighborhood("Tribeca", "New York", "NY", "US", 40.7163, -74.0086),
+  neighborhood("East Village", "New York", "NY", "US", 40.7265, -73.9815),
+  neighborhood("West Village", "New York", "NY", "US", 40.7358, -74.0036),
+  neighborhood("Lower East Side", "New York", "NY", "US", 40.715, -73.9843, ["LES"]),
+  neighborhood("Chelsea", "New York", "NY", "US", 40.7465, -74.0014),
+  neighborhood("Upper West Side", "New York", "NY", "US", 40.787, -73.9754, ["UWS"]),
+  neighborhood("Upper East Side", "New York", "NY", "US", 40.7736, -73.9566, ["UES"]),
+
+  // San Francisco
+  neighborhood("Mission District", "San Francisco", "CA", "US", 37.7599, -122.4148, ["The Mission", "Mission"]),
+  neighborhood("SoMa", "San Francisco", "CA", "US", 37.7785, -122.4056, ["South of Market"]),
+  neighborhood("Hayes Valley", "San Francisco", "CA", "US", 37.7759, -122.4245),
+  neighborhood("The Castro", "San Francisco", "CA", "US", 37.7609, -122.435, ["Castro"]),
+  neighborhood("Haight-Ashbury", "San Francisco", "CA", "US", 37.7692, -122.4481, ["The Haight"]),
+  neighborhood("North Beach", "San Francisco", "CA", "US", 37.8061, -122.4103),
+  neighborhood("Marina District", "San Francisco", "CA", "US", 37.8037, -122.4368, ["The Marina"]),
+
+  // Austin
+  neighborhood("South Congress", "Austin", "TX", "US", 30.2496, -97.7494, ["SoCo"]),
+  neighborhood("East Austin", "Austin", "TX", "US", 30.263, -97.7222),
+  neighborhood("Zilker", "Austin", "TX", "US", 30.2669, -97.7729),
+  neighborhood("Hyde Park", "Austin", "TX", "US", 30.305, -97.7289),
+
+  // Los Angeles
+  neighborhood("Silver Lake", "Los Angeles", "CA", "US", 34.0869, -118.2702),
+  neighborhood("Echo Park", "Los Angeles", "CA", "US", 34.0782, -118.2606),
+  neighborhood("Venice", "Los Angeles", "CA", "US", 33.985, -118.4695),
+  neighborhood("Hollywood", "Los Angeles", "CA", "US", 34.0928, -118.3287),
+  neighborhood("Downtown Los Angeles", "Los Angeles", "CA", "US", 34.0407, -118.2468, ["DTLA"]),
+  neighborhood("Koreatown", "Los Angeles", "CA", "US", 34.0618, -118.3004),
+  neighborhood("Arts District", "Los Angeles", "CA", "US", 34.0403, -118.2353),
+
+  // Chicago
+  neighborhood("Wicker Park", "Chicago", "IL", "US", 41.9088, -87.6796),
+  neighborhood("Logan Square", "Chicago", "IL", "US", 41.9231, -87.7093),
+  neighborhood("Pilsen", "Chicago", "IL", "US", 41.8556, -87.6566),
+  neighborhood("Lincoln Park", "Chicago", "IL", "US", 41.9214, -87.6513),
+  neighborhood("West Loop", "Chicago", "IL", "US", 41.8827, -87.6496),
+  neighborhood("Hyde Park", "Chicago", "IL", "US", 41.7943, -87.5907),
+
+  // Elsewhere in the US
+  neighborhood("Capitol Hill", "Seattle", "WA", "US", 47.6253, -122.3222),
+  neighborhood("Fremont", "Seattle", "WA", "US", 47.6505, -122.35),
+  neighborhood("Ballard", "Seattle", "WA", "US", 47.6687, -122.3842),
+  neighborhood("Pearl District", "Portland", "OR", "US", 45.5299, -122.6825),
+  neighborhood("Alberta Arts District", "Portland", "OR", "US", 45.559, -122.645),
+  neighborhood("RiNo", "Denver", "CO", "US", 39.7686, -104.9817, ["River North"]),
+  neighborhood("East Nashville", "Nashville", "TN", "US", 36.1853, -86.7461),
+  neighborhood("Wynwood", "Miami", "FL", "US", 25.801, -80.1994),
+  neighborhood("Back Bay", "Boston", "MA", "US", 42.3503, -71.081),
+  neighborhood("Jamaica Plain", "Boston", "MA", "US", 42.3097, -71.1151),
+  neighborhood("Capitol Hill", "Washington", "DC", "US", 38.8897, -76.9905),
+  neighborhood("Adams Morgan", "Washington", "DC", "US", 38.9215, -77.0422),
+
+  // London
+  neighborhood("Shoreditch", "London", undefined, "GB", 51.5265, -0.0798),
+  neighborhood("Soho", "London", undefined, "GB", 51.5136, -0.1365),
+  neighborhood("Camden", "London", undefined, "GB", 51.539, -0.1426, ["Camden Town"]),
+  neighborhood("Hackney", "London", undefined, "GB", 51.545, -0.0553),
+  neighborhood("Brixton", "London", undefined, "GB", 51.4613, -0.1156)
+];
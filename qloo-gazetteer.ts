@@ -0,0 +1,106 @@
+import {
+  COUNTRY_NAMES,
+  DEFAULT_GAZETTEER_PLACES,
+  GazetteerPlace,
+  REGION_NAMES
+} from "./qloo-gazetteer-data";
+import { GeoPoint } from "./qloo-geo";
+import { normalizeText, stringSimilarity } from "./qloo-text";
+
+export * from "./qloo-gazetteer-data";
+
+// Offline place-name resolution: "Brooklyn, NY" -> coordinates, with no network access.
+// The part before the first comma is matched fuzzily against names and aliases; anything after
+// it ("NY", "Texas", "UK", "Chicago") must match the place's region, country or parent city.
+
+export interface GazetteerCandidate {
+  place: GazetteerPlace;
+  point: GeoPoint;
+  label: string; // e.g. "Brooklyn, New York, NY, US"
+  score: number; // 0..1
+}
+
+export interface GazetteerResolution {
+  query: string;
+  best?: GazetteerCandidate;
+  candidates: GazetteerCandidate[]; // Everything above minScore, best first
+  ambiguous: boolean; // Several places fit about equally well; callers should confirm
+}
+
+export interface GazetteerResolveOptions {
+  minScore?: number; // Below this a candidate is not considered a match (default 0.8)
+  ambiguityMargin?: number; // Candidates this close to the best one make it ambiguous (default 0.05)
+  limit?: number; // Max candidates returned (default 5)
+}
+
+// Qualifiers that match a place raise its score, qualifiers that contradict it lower it
+const QUALIFIER_MATCH_BONUS = 0.1;
+const QUALIFIER_MISMATCH_PENALTY = 0.3;
+
+function label(place: GazetteerPlace): string {
+  return [place.name, place.city, place.region, place.country].filter(Boolean).join(', ');
+}
+
+export class Gazetteer {
+  private places: GazetteerPlace[];
+
+  constructor(places: GazetteerPlace[] = DEFAULT_GAZETTEER_PLACES) {
+    this.places = [...places];
+  }
+
+  // Extend the bundled data at runtime, e.g. with neighborhoods for a new launch city
+  addPlaces(places: GazetteerPlace[]): void {
+    this.places.push(...places);
+  }
+
+  resolve(query: string, options: GazetteerResolveOptions = {}): GazetteerResolution {
+    const { minScore = 0.8, ambiguityMargin = 0.05, limit = 5 } = options;
+    const [name, ...qualifiers] = query.split(',').map(part => part.trim()).filter(Boolean);
+    if (!name) {
+      return { query, candidates: [], ambiguous: false };
+    }
+
+    const ranked = this.places
+      .map(place => ({ place, raw: this.score(place, name, qualifiers) }))
+      .filter(({ raw }) => raw >= minScore)
+      .sort((a, b) => b.raw - a.raw || this.weight(b.place) - this.weight(a.place));
+
+    const candidates: GazetteerCandidate[] = ranked.slice(0, limit).map(({ place, raw }) => ({
+      place,
+      point: { lat: place.lat, lon: place.lon },
+      label: label(place),
+      score: Math.round(Math.min(1, raw) * 1000) / 1000
+    }));
+
+    const ambiguous = ranked.length > 1 && ranked[0].raw - ranked[1].raw < ambiguityMargin;
+    return { query, best: candidates[0], candidates, ambiguous };
+  }
+
+  private score(place: GazetteerPlace, name: string, qualifiers: string[]): number {
+    const nameScore = Math.max(...[place.name, ...(place.aliases || [])].map(candidate => stringSimilarity(name, candidate)));
+
+    const qualifierScore = qualifiers.reduce((total, qualifier) =>
+      total + (this.matchesQualifier(place, qualifier) ? QUALIFIER_MATCH_BONUS : -QUALIFIER_MISMATCH_PENALTY), 0);
+
+    return nameScore + qualifierScore;
+  }
+
+  private matchesQualifier(place: GazetteerPlace, qualifier: string): boolean {
+    const normalized = normalizeText(qualifier);
+    const accepted = [
+      place.region,
+      ...(place.region ? REGION_NAMES[place.region] || [] : []),
+      place.country,
+      ...(COUNTRY_NAMES[place.country] || []),
+      place.city
+    ];
+    return accepted.some(value => value !== undefined && normalizeText(value) === normalized);
+  }
+
+  // Tie-breaker between equally good matches: bigger cities first, neighborhoods after cities
+  private weight(place: GazetteerPlace): number {
+    return place.population || 0;
+  }
+}
+
+export const gazetteer = new Gazetteer();
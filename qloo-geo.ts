@@ -0,0 +1,285 @@
+// Geospatial helpers for Qloo location signals and filters.
+// Qloo accepts either "lat,lon" or WKT. Note the axis order: WKT is "POINT(lon lat)",
+// the plain form is "lat,lon". Everything here works on GeoPoint to keep that straight.
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+// Outer ring only; the closing vertex is optional
+export type GeoPolygon = GeoPoint[];
+
+export type GeoShape =
+  | { kind: 'point'; point: GeoPoint }
+  | { kind: 'polygon'; polygon: GeoPolygon };
+
+export type DistanceUnit = 'm' | 'km' | 'mi' | 'ft';
+
+// Bare numbers are meters, which is what Qloo expects
+export type QlooRadius = number | { value: number; unit: DistanceUnit };
+
+export class QlooGeoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QlooGeoError';
+  }
+}
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+const METERS_PER_UNIT: Record<DistanceUnit, number> = {
+  m: 1,
+  km: 1000,
+  mi: 1609.344,
+  ft: 0.3048
+};
+
+const NUMBER = '[-+]?\\d+(?:\\.\\d+)?';
+const LAT_LON_PATTERN = new RegExp(`^\\s*(${NUMBER})\\s*,\\s*(${NUMBER})\\s*$`);
+const WKT_POINT_PATTERN = new RegExp(`^\\s*POINT\\s*\\(\\s*(${NUMBER})\\s+(${NUMBER})\\s*\\)\\s*$`, 'i');
+const WKT_POLYGON_PATTERN = /^\s*POLYGON\s*\(\s*\(([^()]*)\)\s*\)\s*$/i;
+
+export function isValidPoint(point: GeoPoint): boolean {
+  return Number.isFinite(point.lat) && Number.isFinite(point.lon)
+    && point.lat >= -90 && point.lat <= 90
+    && point.lon >= -180 && point.lon <= 180;
+}
+
+function checkedPoint(lat: number, lon: number, input: string): GeoPoint {
+  const point = { lat, lon };
+  if (!isValidPoint(point)) {
+    throw new QlooGeoError(`Coordinates out of range in "${input}" (lat must be within ±90, lon within ±180)`);
+  }
+  return point;
+}
+
+// "40.7264,-73.9942"
+export function parseLatLon(input: string): GeoPoint | null {
+  const match = LAT_LON_PATTERN.exec(input);
+  return match ? checkedPoint(Number(match[1]), Number(match[2]), input) : null;
+}
+
+// "POINT(-73.9942 40.7264)"
+export function parseWktPoint(input: string): GeoPoint | null {
+  const match = WKT_POINT_PATTERN.exec(input);
+  return match ? checkedPoint(Number(match[2]), Number(match[1]), input) : null;
+}
+
+// "POLYGON((-74.02 40.70, -73.93 40.70, -73.93 40.80, -74.02 40.80, -74.02 40.70))"
+export function parseWktPolygon(input: string): GeoPolygon | null {
+  const match = WKT_POLYGON_PATTERN.exec(input);
+  if (!match) {
+    return null;
+  }
+
+  const polygon = match[1].split(',').map(vertex => {
+    const [lon, lat, ...rest] = vertex.trim().split(/\s+/).map(Number);
+    if (rest.length || Number.isNaN(lat) || Number.isNaN(lon)) {
+      throw new QlooGeoError(`Invalid polygon vertex "${vertex.trim()}" in "${input}"`);
+    }
+    return checkedPoint(lat, lon, input);
+  });
+
+  return checkedPolygon(polygon, input);
+}
+
+function checkedPolygon(polygon: GeoPolygon, input: string): GeoPolygon {
+  const open = isClosed(polygon) ? polygon.slice(0, -1) : polygon;
+  if (open.length < 3) {
+    throw new QlooGeoError(`A polygon needs at least 3 distinct vertices: "${input}"`);
+  }
+  open.forEach(point => {
+    if (!isValidPoint(point)) {
+      throw new QlooGeoError(`Coordinates out of range in polygon "${input}"`);
+    }
+  });
+  return open;
+}
+
+function isClosed(polygon: GeoPolygon): boolean {
+  const first = polygon[0];
+  const last = polygon[polygon.length - 1];
+  return polygon.length > 1 && first.lat === last.lat && first.lon === last.lon;
+}
+
+// Accepts "lat,lon", WKT POINT / POLYGON, a GeoPoint or a list of vertices. Throws QlooGeoError on anything else.
+export function parseGeoShape(input: string | GeoPoint | GeoPolygon): GeoShape {
+  if (Array.isArray(input)) {
+    return { kind: 'polygon', polygon: checkedPolygon(input, JSON.stringify(input)) };
+  }
+
+  if (typeof input !== 'string') {
+    return { kind: 'point', point: checkedPoint(input.lat, input.lon, JSON.stringify(input)) };
+  }
+
+  const point = parseLatLon(input) || parseWktPoint(input);
+  if (point) {
+    return { kind: 'point', point };
+  }
+
+  const polygon = parseWktPolygon(input);
+  if (polygon) {
+    return { kind: 'polygon', polygon };
+  }
+
+  throw new QlooGeoError(`Not a coordinate pair or WKT POINT/POLYGON: "${input}"`);
+}
+
+// Like parseGeoShape, but returns null for input that is not geometry at all (e.g. a city name)
+export function tryParseGeoShape(input: string | GeoPoint | GeoPolygon): GeoShape | null {
+  try {
+    return parseGeoShape(input);
+  } catch (error) {
+    if (error instanceof QlooGeoError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function toLatLon(point: GeoPoint): string {
+  return `${point.lat},${point.lon}`;
+}
+
+export function toWktPoint(point: GeoPoint): string {
+  return `POINT(${point.lon} ${point.lat})`;
+}
+
+export function toWktPolygon(polygon: GeoPolygon): string {
+  const ring = isClosed(polygon) ? polygon : [...polygon, polygon[0]];
+  return `POLYGON((${ring.map(p => `${p.lon} ${p.lat}`).join(', ')}))`;
+}
+
+export function toWkt(shape: GeoShape): string {
+  return shape.kind === 'point' ? toWktPoint(shape.point) : toWktPolygon(shape.polygon);
+}
+
+export function toMeters(radius: QlooRadius): number {
+  const meters = typeof radius === 'number' ? radius : radius.value * METERS_PER_UNIT[radius.unit];
+  if (!Number.isFinite(meters) || meters < 0) {
+    throw new QlooGeoError(`Invalid radius: ${JSON.stringify(radius)}`);
+  }
+  return Math.round(meters);
+}
+
+export function convertDistance(meters: number, unit: DistanceUnit): number {
+  return meters / METERS_PER_UNIT[unit];
+}
+
+// Great-circle distance in meters
+export function haversineMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Vertex average; good enough as a distance origin for city-sized polygons
+export function polygonCentroid(polygon: GeoPolygon): GeoPoint {
+  const open = isClosed(polygon) ? polygon.slice(0, -1) : polygon;
+  return {
+    lat: open.reduce((sum, p) => sum + p.lat, 0) / open.length,
+    lon: open.reduce((sum, p) => sum + p.lon, 0) / open.length
+  };
+}
+
+export function shapeCenter(shape: GeoShape): GeoPoint {
+  return shape.kind === 'point' ? shape.point : polygonCentroid(shape.polygon);
+}
+
+// Ray casting on raw lat/lon; fine for the small regions used as location filters
+export function isPointInPolygon(point: GeoPoint, polygon: GeoPolygon): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lon < ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Set `distanceMeters` from `origin` on every entity that has a location
+export function withDistances<T extends { location?: GeoPoint; distanceMeters?: number }>(entities: T[], origin: GeoPoint): T[] {
+  return entities.map(entity => entity.location
+    ? { ...entity, distanceMeters: Math.round(haversineMeters(origin, entity.location)) }
+    : entity);
+}
+
+// Nearest first; entities without a distance go last
+export function sortByDistance<T extends { distanceMeters?: number }>(entities: T[]): T[] {
+  return [...entities].sort((a, b) => (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity));
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Bounding box of a geohash cell (heatmap cells are identified by geohash)
+export function decodeGeohashBounds(geohash: string): GeoBounds {
+  const bounds = { south: -90, west: -180, north: 90, east: 180 };
+  let evenBit = true; // Bits alternate between longitude and latitude, starting with longitude
+
+  for (const char of geohash.toLowerCase()) {
+    const index = GEOHASH_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new QlooGeoError(`Invalid geohash "${geohash}"`);
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const set = ((index >> bit) & 1) === 1;
+      if (evenBit) {
+        const mid = (bounds.west + bounds.east) / 2;
+        if (set) bounds.west = mid; else bounds.east = mid;
+      } else {
+        const mid = (bounds.south + bounds.north) / 2;
+        if (set) bounds.south = mid; else bounds.north = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return bounds;
+}
+
+// Heatmap cells from Qloo come keyed by geohash; precision 6 is roughly 1.2km x 0.6km
+export function encodeGeohash(point: GeoPoint, precision = 6): string {
+  const bounds = { south: -90, west: -180, north: 90, east: 180 };
+  let geohash = '';
+  let evenBit = true;
+  let bits = 0;
+  let index = 0;
+
+  while (geohash.length < precision) {
+    const upper = evenBit
+      ? point.lon >= (bounds.west + bounds.east) / 2
+      : point.lat >= (bounds.south + bounds.north) / 2;
+    if (evenBit) {
+      const mid = (bounds.west + bounds.east) / 2;
+      if (upper) bounds.west = mid; else bounds.east = mid;
+    } else {
+      const mid = (bounds.south + bounds.north) / 2;
+      if (upper) bounds.south = mid; else bounds.north = mid;
+    }
+    index = index * 2 + (upper ? 1 : 0);
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      geohash += GEOHASH_ALPHABET[index];
+      bits = 0;
+      index = 0;
+    }
+  }
+
+  return geohash;
+}
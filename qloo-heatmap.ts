@@ -0,0 +1,85 @@
+import { GeoPoint, decodeGeohashBounds, encodeGeohash } from "./qloo-geo";
+import { RawQlooHeatmapCell } from "./qloo-schemas";
+
+// Heatmap output of the insights endpoint (filter.type=urn:heatmap): instead of a list of
+// entities, Qloo scores grid cells by how well the area around them matches the taste signals.
+
+export type QlooHeatmapBoundary = 'geohashes' | 'city' | 'neighborhood';
+
+export interface QlooHeatmapCell {
+  lat: number;
+  lon: number;
+  geohash: string;
+  affinity: number; // 0..1, how well the cell matches the signals
+  popularity: number; // 0..1, overall activity in the cell regardless of taste
+  affinityRank?: number;
+}
+
+export interface QlooHeatmap {
+  boundary: QlooHeatmapBoundary;
+  cells: QlooHeatmapCell[]; // Highest affinity first
+}
+
+export type HeatmapGeometry = 'points' | 'cells';
+
+// Minimal GeoJSON typing; enough for map libraries without pulling in @types/geojson
+export interface HeatmapFeature {
+  type: 'Feature';
+  geometry:
+    | { type: 'Point'; coordinates: [number, number] }
+    | { type: 'Polygon'; coordinates: Array<Array<[number, number]>> };
+  properties: {
+    geohash: string;
+    affinity: number;
+    popularity: number;
+    affinityRank?: number;
+  };
+}
+
+export interface HeatmapFeatureCollection {
+  type: 'FeatureCollection';
+  features: HeatmapFeature[];
+}
+
+export function parseHeatmapCell(raw: RawQlooHeatmapCell): QlooHeatmapCell {
+  const point: GeoPoint = { lat: raw.location.latitude, lon: raw.location.longitude };
+  return {
+    ...point,
+    geohash: raw.location.geohash || encodeGeohash(point),
+    affinity: raw.query?.affinity ?? 0,
+    popularity: raw.query?.popularity ?? 0,
+    affinityRank: raw.query?.affinity_rank
+  };
+}
+
+// The cells a planner would look at first: affinity at or above `minAffinity`, best first
+export function hottestCells(heatmap: QlooHeatmap, minAffinity = 0.5, limit = 10): QlooHeatmapCell[] {
+  return heatmap.cells
+    .filter(cell => cell.affinity >= minAffinity)
+    .slice(0, limit);
+}
+
+// 'points' puts a Point at each cell center (for heat layers), 'cells' draws the geohash
+// rectangle as a Polygon (for choropleths). GeoJSON positions are [lon, lat].
+export function heatmapToGeoJSON(heatmap: QlooHeatmap, geometry: HeatmapGeometry = 'points'): HeatmapFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: heatmap.cells.map(cell => ({
+      type: 'Feature',
+      geometry: geometry === 'cells'
+        ? { type: 'Polygon', coordinates: [cellRing(cell.geohash)] }
+        : { type: 'Point', coordinates: [cell.lon, cell.lat] },
+      properties: {
+        geohash: cell.geohash,
+        affinity: cell.affinity,
+        popularity: cell.popularity,
+        ...(cell.affinityRank !== undefined ? { affinityRank: cell.affinityRank } : {})
+      }
+    }))
+  };
+}
+
+function cellRing(geohash: string): Array<[number, number]> {
+  const { south, west, north, east } = decodeGeohashBounds(geohash);
+  return [[west, south], [east, south], [east, north], [west, north], [west, south]];
+}
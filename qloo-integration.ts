@@ -3,6 +3,8 @@ import { googleAI } from "@genkit-ai/googleai";
 import { openAI } from "@genkit-ai/compat-oai/openai";
 import { enableFirebaseTelemetry } from "@genkit-ai/firebase";
 import { logger } from "firebase-functions";
+import { getApp, getApps, initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
 import { 
   qloo, 
   culturalGoalArchitect, 
@@ -13,7 +15,21 @@ import {
   UserTasteProfile,
   ProjectContext,
   QlooEntity,
-  ENTITY_TYPES
+  ENTITY_TYPES,
+  ResolvedInterest,
+  describeContributions,
+  goalTaxonomy,
+  QlooRange,
+  FirestoreTasteProfileRepository,
+  StoredTasteProfile,
+  TasteProfileRepository,
+  TasteProfileUpdate,
+  QlooProfileConflictError,
+  mergeResolvedInterests,
+  toUserTasteProfile,
+  QlooFeedbackSignals,
+  feedbackSignals,
+  feedbackHorizon
 } from "./qloo-client";
 
 enableFirebaseTelemetry();
@@ -22,35 +38,76 @@ const ai = genkit({
   model: openAI.model("o3-mini"),
 });
 
+// Where the tools keep taste profiles between calls: Firestore in the default Firebase app, so
+// profiles survive cold starts and are shared by every instance. The CLI and tests swap in an
+// InMemoryTasteProfileRepository.
+let tasteProfileRepository: TasteProfileRepository | undefined;
+
+export function useTasteProfileRepository(repository: TasteProfileRepository): void {
+  tasteProfileRepository = repository;
+}
+
+// Connects on first use, so importing the tools doesn't need Firebase credentials
+function tasteProfiles(): TasteProfileRepository {
+  if (!tasteProfileRepository) {
+    const app = getApps().length ? getApp() : initializeApp();
+    tasteProfileRepository = new FirestoreTasteProfileRepository(getFirestore(app));
+  }
+  return tasteProfileRepository;
+}
+
+const profileIdSchema = z.string().optional()
+  .describe("ID of a stored taste profile to use instead of sending interests again; interests, demographics and location sent with it update the profile");
+
+// Shared by the tools that resolve free-text interests
+const interestResolutionSchema = z.array(z.object({
+  interest: z.string(),
+  resolvedTo: z.array(z.string()),
+  confidence: z.number(),
+  ambiguous: z.boolean(),
+  alternatives: z.array(z.string()).describe("Other readings of an ambiguous interest")
+}));
+
 // Enhanced Goal Generation with Qloo Integration
 export const enhanceGoalWithCulturalInsights = ai.defineTool({
   name: "enhance_goal_with_cultural_insights",
   description: "Use Qloo's Taste AI to enhance goal generation with cultural insights and personalized recommendations",
   inputSchema: z.object({
     goal: z.string().describe("The user's stated goal"),
-    userInterests: z.array(z.string()).describe("User's stated interests, hobbies, or preferences"),
+    profileId: profileIdSchema,
+    userInterests: z.array(z.string()).optional().describe("User's stated interests, hobbies, or preferences; required without a profileId"),
     demographics: z.object({
       age: z.string().optional(),
       gender: z.string().optional()
     }).optional(),
     location: z.string().optional().describe("User's location for location-based recommendations"),
-    goalCategory: z.string().describe("Category of the goal (fitness, business, travel, learning, creative, social)")
+    goalCategory: z.string().describe(`Category of the goal (${goalTaxonomy.ids().join(', ')})`),
+    timeframe: z.string().optional().describe("How long the user has, e.g. \"3 months\" or \"this weekend\""),
+    budget: z.string().optional().describe("Spending budget, e.g. \"moderate\" or \"$200/month\"")
   }),
   outputSchema: z.object({
     culturalEnhancement: z.object({
       personalizedProjects: z.array(z.object({
         projectName: z.string(),
+        phase: z.string().describe("discovery, execution, community or learning"),
         culturalAlignment: z.array(z.object({
           name: z.string(),
           type: z.string(),
-          affinity: z.number().optional()
+          affinity: z.number().optional(),
+          reason: z.string().optional().describe("Which of the user's interests drove this match")
         })),
-        affinityScore: z.number()
+        affinityScore: z.number(),
+        schedule: z.array(z.object({
+          name: z.string(),
+          date: z.string()
+        })).optional().describe("When to try each recommendation, spread over the timeframe")
       })),
       crossDomainConnections: z.array(z.object({
         from: z.string(),
         to: z.string(),
         strength: z.number(),
+        sharedTraits: z.array(z.string()),
+        synthetic: z.boolean().describe("True when inferred without Qloo's comparison data"),
         insights: z.array(z.string())
       })),
       culturalRecommendations: z.array(z.object({
@@ -61,33 +118,33 @@ export const enhanceGoalWithCulturalInsights = ai.defineTool({
       }))
     }),
     enhancedGoalDescription: z.string().describe("Goal description enhanced with cultural context"),
-    culturalFitScore: z.number().describe("Overall cultural fit score (0-100)")
+    culturalFitScore: z.number().describe("Overall cultural fit score (0-100)"),
+    interestResolution: interestResolutionSchema.describe("How each interest was matched; confirm ambiguous ones with the user")
   })
-}, async (input) => {
+}, async (input, { abortSignal }) => {
   try {
     logger.info("🎨 Enhancing goal with cultural insights:", input.goal);
 
-    // Create user taste profile
-    const userProfile = createUserTasteProfile({
-      interests: input.userInterests,
-      age: input.demographics?.age,
-      gender: input.demographics?.gender,
-      location: input.location
-    });
+    // Load or create the user taste profile
+    const { userProfile, stored, interestNames, feedback } = await loadTasteProfile(input);
 
     // Create project context
     const context = createProjectContext({
       projectType: "goal_enhancement",
       goalCategory: input.goalCategory,
-      userLocation: input.location
+      userLocation: input.location,
+      timeframe: input.timeframe,
+      budget: input.budget
     });
 
     // Get cultural insights
     const insights = await culturalGoalArchitect.enhanceGoalWithCulturalInsights(
       input.goal,
       userProfile,
-      context
+      context,
+      { signal: abortSignal, feedback }
     );
+    await rememberResolvedInterests(stored, insights.resolvedInterests);
 
     // Calculate cultural fit score
     const culturalFitScore = calculateCulturalFitScore(insights);
@@ -96,35 +153,43 @@ export const enhanceGoalWithCulturalInsights = ai.defineTool({
     const enhancedGoalDescription = generateEnhancedGoalDescription(
       input.goal,
       insights,
-      input.userInterests
+      interestNames
     );
 
     return {
       culturalEnhancement: {
         personalizedProjects: insights.personalizedProjects.map(project => ({
           projectName: project.projectName,
+          phase: project.phase,
           culturalAlignment: project.culturalAlignment.map(entity => ({
             name: entity.name,
             type: entity.type,
-            affinity: entity.affinity
+            affinity: entity.affinity,
+            reason: describeContributions(entity.explanation)
           })),
-          affinityScore: project.affinityScore
+          affinityScore: project.affinityScore,
+          schedule: project.schedule?.map(({ name, date }) => ({ name, date }))
         })),
         crossDomainConnections: insights.crossDomainConnections.map(conn => ({
           from: conn.from,
           to: conn.to,
           strength: conn.strength,
-          insights: [`Strong cultural alignment between ${conn.from} and ${conn.to}`]
+          sharedTraits: conn.sharedTags.map(tag => tag.name),
+          synthetic: conn.synthetic,
+          insights: conn.synthetic
+            ? [`Possible link between ${conn.from} and ${conn.to} (Qloo comparison unavailable, not measured)`]
+            : [`${conn.from} and ${conn.to} share ${conn.sharedTags.map(tag => tag.name).join(', ')}`]
         })),
         culturalRecommendations: insights.culturalRecommendations.map(rec => ({
           name: rec.name,
           type: rec.type,
           affinity: rec.affinity,
-          relevance: "Aligns with your cultural preferences and goal objectives"
+          relevance: describeContributions(rec.explanation) || "Matches your goal; no breakdown by interest available"
         }))
       },
       enhancedGoalDescription,
-      culturalFitScore
+      culturalFitScore,
+      interestResolution: summarizeInterestResolution(insights.resolvedInterests, stored)
     };
   } catch (error) {
     logger.error("🔴 Error enhancing goal with cultural insights:", error);
@@ -140,7 +205,8 @@ export const generateSmartProjectComponents = ai.defineTool({
     projectName: z.string(),
     projectDescription: z.string(),
     projectType: z.string(),
-    userInterests: z.array(z.string()),
+    profileId: profileIdSchema,
+    userInterests: z.array(z.string()).optional().describe("Required without a profileId"),
     demographics: z.object({
       age: z.string().optional(),
       gender: z.string().optional()
@@ -155,7 +221,9 @@ export const generateSmartProjectComponents = ai.defineTool({
         min: z.number().optional(),
         max: z.number().optional()
       }).optional()
-    }).optional()
+    }).optional(),
+    timeframe: z.string().optional().describe("How long the project runs, e.g. \"6 weeks\""),
+    budget: z.string().optional().describe("Spending budget, e.g. \"low\" or \"$50/week\"")
   }),
   outputSchema: z.object({
     smartComponents: z.object({
@@ -191,31 +259,28 @@ export const generateSmartProjectComponents = ai.defineTool({
       primingPrompt: z.string()
     }))
   })
-}, async (input) => {
+}, async (input, { abortSignal }) => {
   try {
     logger.info("🏗️ Generating smart project components for:", input.projectName);
 
-    // Create user taste profile
-    const userProfile = createUserTasteProfile({
-      interests: input.userInterests,
-      age: input.demographics?.age,
-      gender: input.demographics?.gender,
-      location: input.location,
-      priceRange: input.preferences?.priceRange
-    });
+    // Load or create the user taste profile
+    const { userProfile, feedback } = await loadTasteProfile({ ...input, priceRange: input.preferences?.priceRange });
 
     // Create project context
     const context = createProjectContext({
       projectType: input.projectType,
-      goalCategory: categorizeProject(input.projectType),
-      userLocation: input.location
+      goalCategory: goalTaxonomy.categorize(input.projectType),
+      userLocation: input.location,
+      timeframe: input.timeframe,
+      budget: input.budget
     });
 
     // Generate component recommendations
     const recommendations = await smartProjectComponentGenerator.generateComponentRecommendations(
       input.projectType,
       userProfile,
-      context
+      context,
+      { signal: abortSignal, feedback }
     );
 
     // Generate component suggestions based on recommendations
@@ -265,8 +330,9 @@ export const discoverCrossDomainConnections = ai.defineTool({
   name: "discover_cross_domain_connections",
   description: "Find unexpected connections between user interests and target domains using Qloo",
   inputSchema: z.object({
-    userInterests: z.array(z.string()),
-    targetDomain: z.string(),
+    profileId: profileIdSchema,
+    userInterests: z.array(z.string()).optional().describe("Required without a profileId"),
+    targetDomain: z.string().describe(`Domain to find connections in (${goalTaxonomy.ids().join(', ')})`),
     goalContext: z.string().optional(),
     location: z.string().optional()
   }),
@@ -281,26 +347,35 @@ export const discoverCrossDomainConnections = ai.defineTool({
       domainBridges: z.array(z.object({
         domain1: z.string(),
         domain2: z.string(),
+        bridgingTags: z.array(z.string()),
+        interestEntities: z.array(z.string()),
         bridgeEntities: z.array(z.string()),
+        strength: z.number(),
         insights: z.array(z.string())
       })),
       trendingCrossOvers: z.array(z.object({
         name: z.string(),
         type: z.string(),
-        trendingScore: z.number().optional()
+        trendingScore: z.number().optional(),
+        trendVelocity: z.number().optional().describe("Change in trending score over the trend window"),
+        affinity: z.number().optional().describe("How well it matches the user's taste")
       }))
     }),
     actionableInsights: z.array(z.string()),
+    interestResolution: interestResolutionSchema.describe("How each interest was matched; confirm ambiguous ones with the user"),
     innovationOpportunities: z.array(z.object({
       opportunity: z.string(),
       potential: z.string(),
       culturalBasis: z.string()
     }))
   })
-}, async (input) => {
+}, async (input, { abortSignal }) => {
   try {
     logger.info("🔍 Discovering cross-domain connections for:", input.targetDomain);
 
+    // Load or create the user taste profile
+    const { userProfile, stored, feedback } = await loadTasteProfile(input);
+
     // Create project context
     const context = createProjectContext({
       projectType: "discovery",
@@ -310,10 +385,12 @@ export const discoverCrossDomainConnections = ai.defineTool({
 
     // Discover connections
     const discoveries = await crossDomainDiscoveryEngine.discoverUnexpectedConnections(
-      input.userInterests,
+      userProfile.interests,
       input.targetDomain,
-      context
+      context,
+      { signal: abortSignal, feedback }
     );
+    await rememberResolvedInterests(stored, discoveries.resolvedInterests);
 
     // Generate actionable insights
     const actionableInsights = generateActionableInsights(discoveries, input.targetDomain);
@@ -332,16 +409,22 @@ export const discoverCrossDomainConnections = ai.defineTool({
         domainBridges: discoveries.domainBridges.map(bridge => ({
           domain1: bridge.domain1,
           domain2: bridge.domain2,
+          bridgingTags: bridge.bridgingTags.map(tag => tag.name),
+          interestEntities: bridge.interestEntities.map(e => e.name),
           bridgeEntities: bridge.bridgeEntities.map(e => e.name),
+          strength: bridge.strength,
           insights: bridge.insights
         })),
         trendingCrossOvers: discoveries.trendingCrossOvers.map(trend => ({
           name: trend.name,
           type: trend.type,
-          trendingScore: trend.affinity
+          trendingScore: trend.trend.score,
+          trendVelocity: trend.trend.velocity,
+          affinity: trend.affinity
         }))
       },
       actionableInsights,
+      interestResolution: summarizeInterestResolution(discoveries.resolvedInterests, stored),
       innovationOpportunities
     };
   } catch (error) {
@@ -350,7 +433,133 @@ export const discoverCrossDomainConnections = ai.defineTool({
   }
 });
 
+// Feedback on recommendations, so later calls with the profile favor what the user liked and stop
+// suggesting what they rejected
+export const recordTasteFeedback = ai.defineTool({
+  name: "record_taste_feedback",
+  description: "Record how the user reacted to recommended entities (loved, liked, visited, disliked, rejected) so future recommendations for their taste profile adapt",
+  inputSchema: z.object({
+    profileId: z.string().describe("ID of the stored taste profile the feedback belongs to"),
+    reactions: z.array(z.object({
+      entityId: z.string().describe("Qloo entity ID of the recommendation"),
+      name: z.string().optional(),
+      type: z.string().optional(),
+      reaction: z.enum(["loved", "liked", "visited", "disliked", "rejected"])
+    })).min(1)
+  }),
+  outputSchema: z.object({
+    recorded: z.number(),
+    favoredEntities: z.number().describe("Entities now used as weighted signals"),
+    excludedEntities: z.number().describe("Disliked or rejected entities, no longer recommended"),
+    seenEntities: z.number().describe("Visited or loved entities, used as signals but not recommended again")
+  })
+}, async (input) => {
+  try {
+    logger.info(`👍 Recording ${input.reactions.length} reactions for taste profile ${input.profileId}`);
+
+    if (!await tasteProfiles().get(input.profileId)) {
+      throw new Error(`No taste profile "${input.profileId}"; create it by sending userInterests with the profileId to another tool`);
+    }
+
+    const at = new Date().toISOString();
+    await tasteProfiles().addFeedback(input.profileId, input.reactions.map(reaction => ({ ...reaction, at })));
+
+    const signals = feedbackSignals(await tasteProfiles().listFeedback(input.profileId, feedbackHorizon()));
+    return {
+      recorded: input.reactions.length,
+      favoredEntities: signals.entities.length,
+      excludedEntities: signals.excludeEntities.length,
+      seenEntities: signals.seenEntities.length
+    };
+  } catch (error) {
+    logger.error("🔴 Error recording taste feedback:", error);
+    throw error;
+  }
+});
+
 // Utility Functions
+
+// The taste profile for a tool call: the stored one when a profile ID is given, updated with whatever
+// the call sends, otherwise one built from the call alone. `interestNames` are the interests as the
+// user phrased them, for text meant for people; `feedback` is the stored profile's recorded reactions
+// as insights signals.
+async function loadTasteProfile(input: {
+  profileId?: string;
+  userInterests?: string[];
+  demographics?: { age?: string; gender?: string };
+  location?: string;
+  priceRange?: QlooRange;
+}): Promise<{ userProfile: UserTasteProfile; stored?: StoredTasteProfile; interestNames: string[]; feedback?: QlooFeedbackSignals }> {
+  const sent = createUserTasteProfile({
+    interests: input.userInterests || [],
+    age: input.demographics?.age,
+    gender: input.demographics?.gender,
+    location: input.location,
+    priceRange: input.priceRange
+  });
+
+  if (!input.profileId) {
+    if (!input.userInterests?.length) {
+      throw new Error("Send userInterests, or the profileId of a stored taste profile");
+    }
+    return { userProfile: sent, interestNames: input.userInterests };
+  }
+
+  const update: TasteProfileUpdate = {};
+  if (input.userInterests?.length) update.interests = input.userInterests;
+  if (input.demographics) update.demographics = sent.demographics;
+  if (input.location) update.location = sent.location;
+  if (input.priceRange) update.preferences = sent.preferences;
+
+  let stored = await tasteProfiles().get(input.profileId);
+  if (!stored && !update.interests) {
+    throw new Error(`No taste profile "${input.profileId}"; send userInterests to create it`);
+  }
+  if (Object.keys(update).length) {
+    stored = await tasteProfiles().save(input.profileId, update);
+  }
+
+  const feedback = feedbackSignals(await tasteProfiles().listFeedback(input.profileId, feedbackHorizon()));
+  return { userProfile: toUserTasteProfile(stored!), stored, interestNames: stored!.interests, feedback };
+}
+
+// Keep what the interests resolved to, so the next call with this profile can skip resolving them.
+// Best effort: a concurrent update or a store outage only costs a re-resolution later.
+async function rememberResolvedInterests(stored: StoredTasteProfile | undefined, resolved: ResolvedInterest[]): Promise<void> {
+  if (!stored) {
+    return;
+  }
+
+  try {
+    await tasteProfiles().save(
+      stored.id,
+      { resolvedInterests: mergeResolvedInterests(stored, resolved) },
+      { expectedVersion: stored.version }
+    );
+  } catch (error) {
+    if (!(error instanceof QlooProfileConflictError)) {
+      logger.warn(`Could not save resolved interests for taste profile ${stored.id}:`, error);
+    }
+  }
+}
+
+// Interests sent as stored entity IDs are reported under the text they were resolved from
+function summarizeInterestResolution(resolved: ResolvedInterest[], stored?: StoredTasteProfile): z.infer<typeof interestResolutionSchema> {
+  return resolved.map(interest => {
+    const chosen = new Set(interest.entities.map(entity => entity.id));
+    const original = stored?.resolvedInterests.find(storedInterest => storedInterest.entityIds.includes(interest.query));
+    return {
+      interest: original?.query ?? interest.query,
+      resolvedTo: interest.entities.map(entity => entity.name),
+      confidence: interest.confidence,
+      ambiguous: interest.ambiguous,
+      alternatives: interest.ambiguous
+        ? interest.candidates.filter(c => !chosen.has(c.entity.id)).slice(0, 3).map(c => c.entity.name)
+        : []
+    };
+  });
+}
+
 function calculateCulturalFitScore(insights: any): number {
   // Calculate based on affinity scores and connections
   const personalizedProjects = insights.personalizedProjects || [];
@@ -364,7 +573,8 @@ function calculateCulturalFitScore(insights: any): number {
     count++;
   });
 
-  crossDomainConnections.forEach((connection: any) => {
+  // Synthetic connections carry no measured strength, so they don't count towards the fit
+  crossDomainConnections.filter((connection: any) => !connection.synthetic).forEach((connection: any) => {
     totalScore += connection.strength * 100;
     count++;
   });
@@ -382,24 +592,6 @@ function generateEnhancedGoalDescription(
   return `${originalGoal} - Enhanced with cultural intelligence: Leveraging your interests in ${userInterests.join(', ')}, this goal incorporates culturally-aligned elements like ${culturalElements.join(', ')} to make your journey more personally meaningful and sustainable.`;
 }
 
-function categorizeProject(projectType: string): string {
-  const categoryMap: Record<string, string> = {
-    'fitness': 'fitness',
-    'health': 'fitness',
-    'business': 'business',
-    'startup': 'business',
-    'travel': 'travel',
-    'learning': 'learning',
-    'education': 'learning',
-    'creative': 'creative',
-    'art': 'creative',
-    'social': 'social',
-    'networking': 'social'
-  };
-
-  return categoryMap[projectType.toLowerCase()] || 'general';
-}
-
 function mapEntityTypeToCategory(entityType: string): string {
   const typeMap: Record<string, string> = {
     [ENTITY_TYPES.BOOK]: 'Learning Resource',
@@ -516,12 +708,13 @@ function identifyInnovationOpportunities(discoveries: any, input: any): Array<{
     });
   });
 
-  // Add domain bridge opportunities
-  if (discoveries.domainBridges?.length > 0) {
+  // Add the strongest domain bridge as a partnership opportunity
+  const strongestBridge = discoveries.domainBridges?.[0];
+  if (strongestBridge) {
     opportunities.push({
-      opportunity: `Develop cross-domain partnerships or products`,
-      potential: "Medium to High - untapped market potential",
-      culturalBasis: "Strong cultural bridges exist between your interests and target domain"
+      opportunity: `Develop cross-domain partnerships or products between ${strongestBridge.domain1} and ${strongestBridge.domain2}`,
+      potential: `${strongestBridge.strength >= 0.5 ? 'High' : 'Medium'} - ${Math.round(strongestBridge.strength * 100)}% bridge strength`,
+      culturalBasis: strongestBridge.insights[0]
     });
   }
 
@@ -532,5 +725,6 @@ function identifyInnovationOpportunities(discoveries: any, input: any): Array<{
 export const qlooTools = [
   enhanceGoalWithCulturalInsights,
   generateSmartProjectComponents,
-  discoverCrossDomainConnections
+  discoverCrossDomainConnections,
+  recordTasteFeedback
 ];
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { logger } from "firebase-functions";
+import { ENTITY_TYPES, QlooEntity } from "./qloo-entities";
+import { GoalTaxonomy, goalTaxonomy } from "./qloo-taxonomy";
+import { stringSimilarity, tokenOverlap } from "./qloo-text";
+import type { QlooClient, QlooRequestOptions } from "./qloo-client";
+
+// Turns free-text interests ("coffee", "Khruangbin") into Qloo entities or tags, scoring each
+// search hit instead of trusting the search ranking, so "coffee" doesn't silently become a movie.
+// Interests that are already Qloo entity IDs or tag URNs are used as they are.
+
+export interface InterestCandidate {
+  entity: QlooEntity;
+  score: number; // 0..1
+}
+
+export interface ResolvedInterest {
+  query: string;
+  source: 'id' | 'tag' | 'search';
+  entities: QlooEntity[]; // Accepted candidates, best first; empty when nothing was confident enough
+  candidates: InterestCandidate[]; // Every scored search hit, best first, for confirmation UIs
+  confidence: number; // Score of the best candidate; 1 for pre-resolved IDs and URNs
+  ambiguous: boolean; // The best candidates are different kinds of thing and score about the same
+}
+
+export interface InterestResolveOptions extends QlooRequestOptions {
+  goalCategory?: string; // Favors the entity types the taxonomy lists as suiting the goal
+  minConfidence?: number; // Candidates below this are dropped (default 0.45)
+  acceptMargin?: number; // Candidates this close to the best one are kept as well (default 0.15)
+  ambiguityMargin?: number; // Rival types this close to the best one make it ambiguous (default 0.08)
+  maxEntities?: number; // Max accepted entities per interest (default 3)
+  take?: number; // Search hits scored per interest (default 10)
+}
+
+const ENTITY_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TAG_URN_PATTERN = /^urn:tag:[a-z0-9_:.-]+$/i;
+
+// How plausible each kind of thing is as someone's "interest" when the text alone can't tell
+const TYPE_PRIORS: Record<string, number> = {
+  'urn:tag': 0.9,
+  [ENTITY_TYPES.PLACE]: 0.8,
+  [ENTITY_TYPES.ARTIST]: 0.8,
+  [ENTITY_TYPES.BRAND]: 0.7,
+  [ENTITY_TYPES.DESTINATION]: 0.7,
+  [ENTITY_TYPES.BOOK]: 0.6,
+  [ENTITY_TYPES.PODCAST]: 0.6,
+  [ENTITY_TYPES.PERSON]: 0.5,
+  [ENTITY_TYPES.MOVIE]: 0.5,
+  [ENTITY_TYPES.TV_SHOW]: 0.5,
+  [ENTITY_TYPES.VIDEO_GAME]: 0.5
+};
+
+// Text match dominates; type and popularity only separate comparable matches
+const TEXT_WEIGHT = 0.6;
+const TYPE_WEIGHT = 0.25;
+const POPULARITY_WEIGHT = 0.15;
+
+// A hit that matches through one of its tags ("coffee" -> a café tagged Coffee) is a slightly weaker match than by name
+const TAG_MATCH_DISCOUNT = 0.85;
+
+function kindOf(entity: QlooEntity): string {
+  return entity.type.startsWith('urn:tag') ? 'urn:tag' : entity.type;
+}
+
+// Types the goal favors get the full prior
+function typePrior(entity: QlooEntity, favoredTypes: string[]): number {
+  const kind = kindOf(entity);
+  if (favoredTypes.includes(kind)) {
+    return 1;
+  }
+  return TYPE_PRIORS[kind] ?? 0.5;
+}
+
+function textScore(query: string, entity: QlooEntity): number {
+  const byName = Math.max(stringSimilarity(query, entity.name), 0.9 * tokenOverlap(query, entity.name));
+  const byTag = Math.max(0, ...(entity.tags || []).map(tag => stringSimilarity(query, tag.name)));
+  return Math.max(byName, TAG_MATCH_DISCOUNT * byTag);
+}
+
+export function scoreInterestCandidate(query: string, entity: QlooEntity, favoredTypes: string[] = []): number {
+  const score = TEXT_WEIGHT * textScore(query, entity)
+    + TYPE_WEIGHT * typePrior(entity, favoredTypes)
+    + POPULARITY_WEIGHT * (entity.popularity ?? 0);
+  return Math.round(score * 1000) / 1000;
+}
+
+// "urn:tag:keyword:place:specialty_coffee" -> a tag entity named "specialty coffee"
+function tagFromUrn(urn: string): QlooEntity {
+  const segments = urn.split(':');
+  return {
+    id: urn,
+    name: segments[segments.length - 1].replace(/_/g, ' '),
+    type: segments.slice(0, -1).join(':'),
+    properties: {}
+  };
+}
+
+export class InterestResolver {
+  constructor(private qloo: QlooClient, private taxonomy: GoalTaxonomy = goalTaxonomy) {}
+
+  async resolve(interests: string[], options: InterestResolveOptions = {}): Promise<ResolvedInterest[]> {
+    const queries = interests.map(interest => interest.trim()).filter(Boolean);
+
+    // Pre-resolved IDs are fetched in one batch; everything else is searched
+    const ids = queries.filter(query => ENTITY_ID_PATTERN.test(query));
+    const byId = new Map((ids.length ? await this.qloo.getEntities(ids, options) : []).map(entity => [entity.id, entity]));
+
+    const resolved = await Promise.all(queries.map(async (query): Promise<ResolvedInterest> => {
+      if (ENTITY_ID_PATTERN.test(query)) {
+        const entity = byId.get(query);
+        return { query, source: 'id', entities: entity ? [entity] : [], candidates: [], confidence: entity ? 1 : 0, ambiguous: false };
+      }
+      if (TAG_URN_PATTERN.test(query)) {
+        return { query, source: 'tag', entities: [tagFromUrn(query)], candidates: [], confidence: 1, ambiguous: false };
+      }
+      return this.resolveBySearch(query, options);
+    }));
+
+    resolved.filter(interest => interest.ambiguous).forEach(interest => {
+      const [best, ...rest] = interest.candidates;
+      const rival = rest.find(c => kindOf(c.entity) !== kindOf(best.entity))!;
+      logger.info(`Interest "${interest.query}" is ambiguous: ${best.entity.name} (${kindOf(best.entity)}) vs ${rival.entity.name} (${kindOf(rival.entity)})`);
+    });
+
+    return resolved;
+  }
+
+  private async resolveBySearch(query: string, options: InterestResolveOptions): Promise<ResolvedInterest> {
+    const {
+      goalCategory,
+      minConfidence = 0.45,
+      acceptMargin = 0.15,
+      ambiguityMargin = 0.08,
+      maxEntities = 3,
+      take = 10
+    } = options;
+
+    const favoredTypes = goalCategory ? this.taxonomy.interestTypes(goalCategory) : [];
+    const hits = await this.qloo.searchEntities(query, undefined, { ...options, take });
+    const candidates = hits
+      .map(entity => ({ entity, score: scoreInterestCandidate(query, entity, favoredTypes) }))
+      .sort((a, b) => b.score - a.score);
+
+    const best = candidates[0];
+    if (!best || best.score < minConfidence) {
+      return { query, source: 'search', entities: [], candidates, confidence: best?.score ?? 0, ambiguous: false };
+    }
+
+    const accepted = candidates.filter(c => c.score >= minConfidence && best.score - c.score <= acceptMargin);
+    const rival = candidates.find(c => kindOf(c.entity) !== kindOf(best.entity));
+    const ambiguous = rival !== undefined && best.score - rival.score < ambiguityMargin;
+
+    return {
+      query,
+      source: 'search',
+      entities: accepted.slice(0, maxEntities).map(c => c.entity),
+      candidates,
+      confidence: best.score,
+      ambiguous
+    };
+  }
+}
+
+// The entities of every interest resolved with at least `minConfidence`, in interest order
+export function confidentEntities(resolved: ResolvedInterest[], minConfidence = 0): QlooEntity[] {
+  return resolved
+    .filter(interest => interest.confidence >= minConfidence)
+    .flatMap(interest => interest.entities);
+}
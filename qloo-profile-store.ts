@@ -0,0 +1,253 @@
+import type { Firestore } from "firebase-admin/firestore";
+import type { UserTasteProfile } from "./qloo-client";
+import type { EntityFeedback } from "./qloo-feedback";
+import type { ResolvedInterest } from "./qloo-interest-resolver";
+
+// Taste profiles that outlive a single tool call: the user's interests together with what they
+// resolved to, so later calls can send Qloo entity IDs instead of re-resolving free text.
+// Every save that changes something bumps the version and records the previous values.
+// Feedback on recommendations is kept per profile as an append-only log beside it.
+
+export interface StoredInterest {
+  query: string; // As the user gave it
+  source: ResolvedInterest['source'];
+  entityIds: string[]; // Empty when nothing was confident enough; the text is resolved again next time
+  names: string[];
+  confidence: number;
+  ambiguous: boolean;
+}
+
+export interface StoredTasteProfile extends UserTasteProfile {
+  id: string;
+  version: number;
+  resolvedInterests: StoredInterest[];
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
+
+export type TasteProfileUpdate = Partial<Pick<StoredTasteProfile,
+  'interests' | 'demographics' | 'location' | 'preferences' | 'resolvedInterests'>>;
+
+export interface TasteProfileChange {
+  version: number; // The version this change produced
+  changedAt: string;
+  fields: Array<keyof TasteProfileUpdate>;
+  previous: TasteProfileUpdate; // Values before the change; absent for fields that were unset
+}
+
+export interface TasteProfileSaveOptions {
+  expectedVersion?: number; // Fail with QlooProfileConflictError if the stored version differs; 0 for "must not exist"
+}
+
+export interface TasteProfileRepository {
+  get(id: string): Promise<StoredTasteProfile | undefined>;
+  // Creates the profile if needed. Saves that change nothing return the stored profile untouched.
+  save(id: string, update: TasteProfileUpdate, options?: TasteProfileSaveOptions): Promise<StoredTasteProfile>;
+  history(id: string, limit?: number): Promise<TasteProfileChange[]>; // Newest first
+  addFeedback(id: string, feedback: EntityFeedback[]): Promise<void>;
+  listFeedback(id: string, since?: Date): Promise<EntityFeedback[]>; // Oldest first
+  delete(id: string): Promise<void>; // Along with its history and feedback
+}
+
+export class QlooProfileConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly profileId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(message);
+    this.name = 'QlooProfileConflictError';
+  }
+}
+
+const PROFILE_FIELDS: Array<keyof TasteProfileUpdate> = ['interests', 'demographics', 'location', 'preferences', 'resolvedInterests'];
+
+// Drops undefined values, which Firestore rejects, and detaches the result from the caller's objects
+function plain<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(plain(a)) === JSON.stringify(plain(b));
+}
+
+// The profile after `update`, and the change to record; no change when every field is as stored.
+// Shared by the repositories so they version and diff the same way.
+export function applyProfileUpdate(
+  current: StoredTasteProfile | undefined,
+  id: string,
+  update: TasteProfileUpdate,
+  options: TasteProfileSaveOptions = {},
+  now: Date = new Date()
+): { profile: StoredTasteProfile; change?: TasteProfileChange } {
+  const actualVersion = current?.version ?? 0;
+  if (options.expectedVersion !== undefined && options.expectedVersion !== actualVersion) {
+    throw new QlooProfileConflictError(
+      `Taste profile ${id} is at version ${actualVersion}, expected ${options.expectedVersion}`,
+      id,
+      options.expectedVersion,
+      actualVersion
+    );
+  }
+
+  const base: StoredTasteProfile = current || {
+    id,
+    version: 0,
+    interests: [],
+    resolvedInterests: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  };
+
+  // Resolutions of interests that were dropped go with them
+  const next: TasteProfileUpdate = { ...update };
+  if (next.interests && !next.resolvedInterests) {
+    next.resolvedInterests = base.resolvedInterests.filter(interest => next.interests!.includes(interest.query));
+  }
+
+  const fields = PROFILE_FIELDS.filter(field => next[field] !== undefined && !same(next[field], base[field]));
+  if (current && !fields.length) {
+    return { profile: current };
+  }
+
+  const previous: TasteProfileUpdate = {};
+  const changed: TasteProfileUpdate = {};
+  fields.forEach(field => {
+    Object.assign(previous, { [field]: plain(base[field]) });
+    Object.assign(changed, { [field]: plain(next[field]) });
+  });
+
+  const version = base.version + 1;
+  const changedAt = now.toISOString();
+  return {
+    profile: plain({ ...base, ...changed, version, updatedAt: changedAt }),
+    change: plain({ version, changedAt, fields, previous })
+  };
+}
+
+// Record what each of the profile's interests resolved to. Only interests the profile holds as
+// text are recorded; ones that were sent as entity IDs already are.
+export function mergeResolvedInterests(profile: StoredTasteProfile, resolved: ResolvedInterest[]): StoredInterest[] {
+  const byQuery = new Map(profile.resolvedInterests.map(interest => [interest.query, interest]));
+  resolved
+    .filter(interest => profile.interests.includes(interest.query))
+    .forEach(interest => byQuery.set(interest.query, {
+      query: interest.query,
+      source: interest.source,
+      entityIds: interest.entities.map(entity => entity.id),
+      names: interest.entities.map(entity => entity.name),
+      confidence: interest.confidence,
+      ambiguous: interest.ambiguous
+    }));
+
+  return profile.interests
+    .map(query => byQuery.get(query))
+    .filter((interest): interest is StoredInterest => interest !== undefined);
+}
+
+// The profile as the engines take it: resolved interests as their best entity ID, the rest as text.
+// One entry per stored interest, so engines that cap the interests they send cap whole interests.
+export function toUserTasteProfile(profile: StoredTasteProfile): UserTasteProfile {
+  const resolved = new Map(profile.resolvedInterests.map(interest => [interest.query, interest.entityIds[0]]));
+  return {
+    interests: [...new Set(profile.interests.map(query => resolved.get(query) ?? query))],
+    demographics: profile.demographics,
+    location: profile.location,
+    preferences: profile.preferences
+  };
+}
+
+export class InMemoryTasteProfileRepository implements TasteProfileRepository {
+  private profiles = new Map<string, StoredTasteProfile>();
+  private changes = new Map<string, TasteProfileChange[]>();
+  private feedback = new Map<string, EntityFeedback[]>();
+
+  async get(id: string): Promise<StoredTasteProfile | undefined> {
+    return plain(this.profiles.get(id));
+  }
+
+  async save(id: string, update: TasteProfileUpdate, options?: TasteProfileSaveOptions): Promise<StoredTasteProfile> {
+    const { profile, change } = applyProfileUpdate(this.profiles.get(id), id, update, options);
+    if (change) {
+      this.profiles.set(id, profile);
+      this.changes.set(id, [change, ...(this.changes.get(id) || [])]);
+    }
+    return plain(profile);
+  }
+
+  async history(id: string, limit = 20): Promise<TasteProfileChange[]> {
+    return plain((this.changes.get(id) || []).slice(0, limit));
+  }
+
+  async addFeedback(id: string, feedback: EntityFeedback[]): Promise<void> {
+    this.feedback.set(id, [...(this.feedback.get(id) || []), ...plain(feedback)]);
+  }
+
+  async listFeedback(id: string, since?: Date): Promise<EntityFeedback[]> {
+    return plain((this.feedback.get(id) || [])
+      .filter(item => !since || new Date(item.at) >= since)
+      .sort((a, b) => a.at.localeCompare(b.at)));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.profiles.delete(id);
+    this.changes.delete(id);
+    this.feedback.delete(id);
+  }
+}
+
+// One document per profile in `collection`, with its changes in a `history` subcollection keyed by
+// version and its feedback in a `feedback` subcollection. Saves run in a transaction, so concurrent
+// writers can't lose each other's changes.
+// Point FIRESTORE_EMULATOR_HOST at the local emulator to try it without a project.
+export class FirestoreTasteProfileRepository implements TasteProfileRepository {
+  constructor(private db: Firestore, private collection = 'tasteProfiles') {}
+
+  async get(id: string): Promise<StoredTasteProfile | undefined> {
+    const snapshot = await this.profileRef(id).get();
+    return snapshot.exists ? snapshot.data() as StoredTasteProfile : undefined;
+  }
+
+  async save(id: string, update: TasteProfileUpdate, options?: TasteProfileSaveOptions): Promise<StoredTasteProfile> {
+    const ref = this.profileRef(id);
+    return this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      const current = snapshot.exists ? snapshot.data() as StoredTasteProfile : undefined;
+      const { profile, change } = applyProfileUpdate(current, id, update, options);
+      if (change) {
+        transaction.set(ref, profile);
+        transaction.set(ref.collection('history').doc(String(change.version)), change);
+      }
+      return profile;
+    });
+  }
+
+  async history(id: string, limit = 20): Promise<TasteProfileChange[]> {
+    const snapshot = await this.profileRef(id).collection('history').orderBy('version', 'desc').limit(limit).get();
+    return snapshot.docs.map(doc => doc.data() as TasteProfileChange);
+  }
+
+  async addFeedback(id: string, feedback: EntityFeedback[]): Promise<void> {
+    const batch = this.db.batch();
+    feedback.forEach(item => batch.set(this.profileRef(id).collection('feedback').doc(), plain(item)));
+    await batch.commit();
+  }
+
+  async listFeedback(id: string, since?: Date): Promise<EntityFeedback[]> {
+    let query = this.profileRef(id).collection('feedback').orderBy('at');
+    if (since) {
+      query = query.where('at', '>=', since.toISOString());
+    }
+    const snapshot = await query.get();
+    return snapshot.docs.map(doc => doc.data() as EntityFeedback);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.recursiveDelete(this.profileRef(id));
+  }
+
+  private profileRef(id: string) {
+    return this.db.collection(this.collection).doc(id);
+  }
+}
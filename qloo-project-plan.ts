@@ -0,0 +1,249 @@
+import { logger } from "firebase-functions";
+import type { ProjectContext, QlooRange } from "./qloo-client";
+
+// Reads the free-text `budget` and `timeframe` of a ProjectContext ("$200/month", "moderate",
+// "3 months", "this weekend") into things the engines can act on: a price_level range for
+// venue filters, and a date range that sizes and schedules each project's recommendations.
+
+export type BudgetLevel = 'free' | 'low' | 'moderate' | 'high' | 'luxury';
+
+export interface ProjectBudget {
+  level: BudgetLevel;
+  priceLevel?: QlooRange; // Qloo price_level, 1 (cheapest) to 4; undefined means no constraint
+  monthlyAmount?: number; // Only when the budget was given as an amount
+}
+
+export interface ProjectTimeframe {
+  start: Date; // Midnight UTC
+  end: Date; // Last day, inclusive
+  days: number;
+}
+
+export interface ProjectPlan {
+  budget?: ProjectBudget;
+  timeframe?: ProjectTimeframe;
+}
+
+export interface ScheduledRecommendation {
+  entityId: string;
+  name: string;
+  date: string; // YYYY-MM-DD
+}
+
+const BUDGET_WORDS: Record<BudgetLevel, string[]> = {
+  free: ['free', 'zero', 'no budget', 'nothing'],
+  low: ['low', 'cheap', 'tight', 'shoestring', 'minimal', 'small', 'frugal', 'limited', 'budget'],
+  moderate: ['moderate', 'medium', 'mid', 'average', 'reasonable', 'normal'],
+  high: ['high', 'generous', 'large', 'comfortable', 'flexible', 'unlimited'],
+  luxury: ['luxury', 'premium', 'splurge', 'lavish']
+};
+
+// A large budget allows pricey places but doesn't ask for them; only "luxury" sets a floor
+const BUDGET_PRICE_LEVELS: Record<BudgetLevel, QlooRange | undefined> = {
+  free: { max: 1 },
+  low: { max: 2 },
+  moderate: { max: 3 },
+  high: undefined,
+  luxury: { min: 3 }
+};
+
+// Monthly spend below each bound maps to that level; anything above is 'high'
+const MONTHLY_AMOUNT_LEVELS: Array<[number, BudgetLevel]> = [
+  [1, 'free'],
+  [75, 'low'],
+  [300, 'moderate']
+];
+
+const MONTHLY_FACTORS: Record<string, number> = {
+  day: 30,
+  week: 52 / 12,
+  month: 1,
+  year: 1 / 12
+};
+
+const PERIOD_ALIASES: Record<string, string> = {
+  d: 'day', day: 'day', daily: 'day',
+  w: 'week', wk: 'week', week: 'week', weekly: 'week',
+  m: 'month', mo: 'month', month: 'month', monthly: 'month',
+  y: 'year', yr: 'year', year: 'year', yearly: 'year', annual: 'year', annually: 'year'
+};
+
+const AMOUNT_PATTERN = /([$€£])?\s*(\d[\d,]*(?:\.\d+)?)\s*(k\b)?\s*(usd|eur|gbp|dollars?|euros?|pounds?)?\s*(?:\b(daily|weekly|monthly|yearly|annually)\b|(?:\/|\bper\b|\ban?\b|\beach\b|\bevery\b)\s*([a-z]+))?/g;
+
+// "$200/month", "50 a week", "$1.5k", "moderate", "low budget". A total without a period is spread
+// over the timeframe, or taken as a month's spend when there is none. Numbers without a currency or
+// a period aren't money ("high budget for 2 people"), so the words decide.
+export function parseBudget(text: string, timeframe?: ProjectTimeframe): ProjectBudget | undefined {
+  const lower = text.toLowerCase().trim();
+
+  for (const amount of lower.matchAll(AMOUNT_PATTERN)) {
+    const period = PERIOD_ALIASES[(amount[6] || amount[5] || '').replace(/s$/, '')];
+    if (!amount[1] && !amount[4] && !period) {
+      continue;
+    }
+
+    const value = parseFloat(amount[2].replace(/,/g, '')) * (amount[3] ? 1000 : 1);
+    let monthlyAmount: number;
+    if (period) {
+      monthlyAmount = value * MONTHLY_FACTORS[period];
+    } else {
+      monthlyAmount = value / Math.max(1, (timeframe?.days ?? 30) / 30);
+    }
+
+    const level = MONTHLY_AMOUNT_LEVELS.find(([bound]) => monthlyAmount < bound)?.[1] ?? 'high';
+    return { level, priceLevel: BUDGET_PRICE_LEVELS[level], monthlyAmount: Math.round(monthlyAmount) };
+  }
+
+  // Check the more specific levels first so "no budget" isn't read as "budget"
+  for (const level of ['free', 'luxury', 'high', 'moderate', 'low'] as BudgetLevel[]) {
+    if (BUDGET_WORDS[level].some(word => new RegExp(`\\b${word}\\b`).test(lower))) {
+      return { level, priceLevel: BUDGET_PRICE_LEVELS[level] };
+    }
+  }
+  return undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, couple: 2, few: 3
+};
+
+const DURATION_PATTERN = new RegExp(
+  `\\b(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})(?:\\s*(?:-|to)\\s*(\\d+))?\\s*(?:of\\s+)?(day|week|fortnight|month|quarter|year)s?\\b`
+);
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+function span(start: Date, end: Date): ProjectTimeframe {
+  return { start, end, days: Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1 };
+}
+
+// Saturday of the current weekend, or of the coming one on weekdays
+function weekendStart(today: Date): Date {
+  const weekday = today.getUTCDay();
+  if (weekday === 0) return addDays(today, -1);
+  return addDays(today, 6 - weekday);
+}
+
+// "3 months", "6-8 weeks" (the longer end), "a year", "half a year", "this weekend", "next week",
+// "tomorrow". Relative phrases count from `from`, today by default.
+export function parseTimeframe(text: string, from: Date = new Date()): ProjectTimeframe | undefined {
+  const lower = text.toLowerCase().trim().replace(/\bhalf\s+an?\b/g, '0.5');
+  const today = startOfDay(from);
+
+  if (/\b(today|tonight)\b/.test(lower)) return span(today, today);
+  if (/\btomorrow\b/.test(lower)) return span(addDays(today, 1), addDays(today, 1));
+
+  if (/\bweekend\b/.test(lower)) {
+    const saturday = addDays(weekendStart(today), /\bnext\b/.test(lower) ? 7 : 0);
+    const start = saturday < today ? today : saturday;
+    return span(start, addDays(saturday, 1));
+  }
+
+  const calendar = lower.match(/\b(this|next)\s+(week|month|year)\b/);
+  if (calendar) {
+    const [, which, unit] = calendar;
+    if (unit === 'week') {
+      const sunday = addDays(today, (7 - today.getUTCDay()) % 7);
+      return which === 'this' ? span(today, sunday) : span(addDays(sunday, 1), addDays(sunday, 7));
+    }
+    if (unit === 'month') {
+      const firstOfNext = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1));
+      return which === 'this'
+        ? span(today, addDays(firstOfNext, -1))
+        : span(firstOfNext, addDays(addMonths(firstOfNext, 1), -1));
+    }
+    const year = today.getUTCFullYear() + (which === 'next' ? 1 : 0);
+    const start = which === 'this' ? today : new Date(Date.UTC(year, 0, 1));
+    return span(start, new Date(Date.UTC(year, 11, 31)));
+  }
+
+  const duration = lower.match(DURATION_PATTERN);
+  if (duration) {
+    const [, count, upper, unit] = duration;
+    const amount = upper ? Number(upper) : NUMBER_WORDS[count] ?? Number(count);
+    let end: Date;
+    if (unit === 'day') {
+      end = addDays(today, Math.round(amount));
+    } else if (unit === 'week' || unit === 'fortnight') {
+      end = addDays(today, Math.round(amount * (unit === 'week' ? 7 : 14)));
+    } else {
+      const months = amount * (unit === 'year' ? 12 : unit === 'quarter' ? 3 : 1);
+      end = addDays(addMonths(today, Math.floor(months)), Math.round((months % 1) * 30));
+    }
+    return span(today, addDays(end, -1));
+  }
+
+  return undefined;
+}
+
+// Parse the context's budget and timeframe, logging whatever can't be understood
+export function planFromContext(context: ProjectContext): ProjectPlan {
+  const from = context.startDate ? new Date(context.startDate) : new Date();
+  const timeframe = context.timeframe ? parseTimeframe(context.timeframe, from) : undefined;
+  const budget = context.budget ? parseBudget(context.budget, timeframe) : undefined;
+
+  if (context.timeframe && !timeframe) {
+    logger.warn(`Ignoring unrecognized project timeframe: "${context.timeframe}"`);
+  }
+  if (context.budget && !budget) {
+    logger.warn(`Ignoring unrecognized project budget: "${context.budget}"`);
+  }
+  return { budget, timeframe };
+}
+
+// About one recommendation per week of the timeframe, between 2 and `max`; `max` without a timeframe
+export function recommendationsPerPhase(timeframe: ProjectTimeframe | undefined, max: number): number {
+  if (!timeframe) {
+    return max;
+  }
+  return Math.min(max, Math.max(2, Math.ceil(timeframe.days / 7)));
+}
+
+// The tighter of two ranges. A budget that rules out the preferred range entirely wins over it.
+export function narrowPriceLevel(preferred?: QlooRange, budget?: QlooRange): QlooRange | undefined {
+  if (!preferred || !budget) {
+    return budget || preferred;
+  }
+
+  const min = Math.max(preferred.min ?? -Infinity, budget.min ?? -Infinity);
+  const max = Math.min(preferred.max ?? Infinity, budget.max ?? Infinity);
+  if (min > max) {
+    return budget;
+  }
+  return {
+    min: Number.isFinite(min) ? min : undefined,
+    max: Number.isFinite(max) ? max : undefined
+  };
+}
+
+// Spread items evenly over a share of the timeframe, e.g. [0, 0.4] for its first 40%
+export function scheduleAcross(
+  entities: Array<{ id: string; name: string }>,
+  timeframe: ProjectTimeframe,
+  window: [number, number] = [0, 1]
+): ScheduledRecommendation[] {
+  const first = Math.floor(window[0] * (timeframe.days - 1));
+  const last = Math.floor(window[1] * (timeframe.days - 1));
+  const step = entities.length > 1 ? (last - first) / (entities.length - 1) : 0;
+
+  return entities.map((entity, i) => ({
+    entityId: entity.id,
+    name: entity.name,
+    date: addDays(timeframe.start, first + Math.round(i * step)).toISOString().slice(0, 10)
+  }));
+}
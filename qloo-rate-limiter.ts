@@ -0,0 +1,120 @@
+// Client-side throttling for Qloo requests: a token bucket caps the request rate and
+// a concurrency limit caps how many requests are in flight. Tasks wait in a FIFO queue.
+
+export interface QlooRateLimitOptions {
+  requestsPerSecond: number;
+  burst: number; // Bucket size: how many requests may start back to back after an idle period
+  maxConcurrency: number;
+}
+
+export interface QlooRateLimiterStats {
+  queueDepth: number;
+  inFlight: number;
+  completed: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  averageWaitMs: number;
+}
+
+const DEFAULT_RATE_LIMIT_OPTIONS: QlooRateLimitOptions = {
+  requestsPerSecond: 5,
+  burst: 10,
+  maxConcurrency: 4
+};
+
+export class QlooRateLimiter {
+  private options: QlooRateLimitOptions;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Array<() => void> = [];
+  private inFlight = 0;
+  private completed = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: Partial<QlooRateLimitOptions> = {}) {
+    this.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options };
+    this.tokens = this.options.burst;
+  }
+
+  // A task still waiting in the queue when `signal` aborts is dropped and rejects with the abort reason
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const enqueuedAt = Date.now();
+      const onAbort = () => {
+        const index = this.queue.indexOf(start);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal!.reason);
+        }
+      };
+
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        const waited = Date.now() - enqueuedAt;
+        this.totalWaitMs += waited;
+        this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+        this.inFlight++;
+
+        task().then(resolve, reject).finally(() => {
+          this.inFlight--;
+          this.completed++;
+          this.drain();
+        });
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(start);
+      this.drain();
+    });
+  }
+
+  stats(): QlooRateLimiterStats {
+    const started = this.completed + this.inFlight;
+    return {
+      queueDepth: this.queue.length,
+      inFlight: this.inFlight,
+      completed: this.completed,
+      totalWaitMs: this.totalWaitMs,
+      maxWaitMs: this.maxWaitMs,
+      averageWaitMs: started ? this.totalWaitMs / started : 0
+    };
+  }
+
+  private refill() {
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) / 1000) * this.options.requestsPerSecond;
+    this.tokens = Math.min(this.options.burst, this.tokens + earned);
+    this.lastRefill = now;
+  }
+
+  private drain() {
+    while (this.queue.length && this.inFlight < this.options.maxConcurrency) {
+      this.refill();
+
+      if (this.tokens < 1) {
+        // Wake up when the next token is due; finished tasks also call drain()
+        if (!this.timer) {
+          const waitMs = Math.ceil(((1 - this.tokens) / this.options.requestsPerSecond) * 1000);
+          this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.drain();
+          }, waitMs);
+        }
+        return;
+      }
+
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+  }
+}
+
+// Shared by every QlooClient that is not given its own limiter, so all engines draw from one budget
+export const sharedRateLimiter = new QlooRateLimiter();
@@ -0,0 +1,157 @@
+import { z } from "genkit";
+
+// Schemas for the raw payloads of each Qloo endpoint, checked before QlooClient transforms them.
+// They only pin down the fields we read; everything else passes through untouched so new
+// fields added by Qloo are never reported as drift.
+
+export type QlooValidationMode = 'strict' | 'lenient' | 'off';
+
+// Entities carry `entity_id` on most endpoints but plain `id` on some older ones
+const hasId = (item: { entity_id?: string; id?: string }) => Boolean(item.entity_id || item.id);
+
+const RawQlooEntityObject = z.object({
+  entity_id: z.string().optional(),
+  id: z.string().optional(),
+  name: z.string(),
+  types: z.array(z.string()).optional(),
+  type: z.string().optional(),
+  subtype: z.string().optional(),
+  affinity: z.number().optional(),
+  popularity: z.number().optional(),
+  properties: z.record(z.any()).optional(),
+  query: z.object({
+    affinity: z.number().optional()
+  }).passthrough().optional()
+}).passthrough();
+
+export const RawQlooEntitySchema = RawQlooEntityObject.refine(hasId, { message: 'entity_id is required' });
+
+// Trending entities carry their trend data alongside the usual entity fields
+export const RawQlooTrendingEntitySchema = RawQlooEntityObject.extend({
+  trend: z.object({
+    score: z.number().optional(),
+    velocity: z.number().optional(),
+    window: z.object({
+      start: z.string(),
+      end: z.string()
+    }).passthrough().optional()
+  }).passthrough().optional()
+}).passthrough().refine(hasId, { message: 'entity_id is required' });
+
+export const RawQlooTagSchema = z.object({
+  id: z.string().optional(),
+  tag_id: z.string().optional(),
+  name: z.string(),
+  type: z.string().optional(),
+  subtype: z.string().optional()
+}).passthrough().refine(tag => Boolean(tag.id || tag.tag_id), { message: 'id or tag_id is required' });
+
+export const RawQlooAudienceSchema = z.object({
+  id: z.string().optional(),
+  entity_id: z.string().optional(),
+  name: z.string(),
+  type: z.string().optional()
+}).passthrough().refine(hasId, { message: 'id is required' });
+
+export const RawQlooComparedTagSchema = z.object({
+  id: z.string().optional(),
+  tag_id: z.string().optional(),
+  name: z.string(),
+  type: z.string().optional(),
+  subtype: z.string().optional(),
+  query: z.object({
+    a: z.object({ affinity: z.number().optional() }).passthrough().optional(),
+    b: z.object({ affinity: z.number().optional() }).passthrough().optional()
+  }).passthrough().optional()
+}).passthrough().refine(tag => Boolean(tag.id || tag.tag_id), { message: 'id or tag_id is required' });
+
+export const SearchResponseSchema = z.object({
+  results: z.array(RawQlooEntitySchema)
+}).passthrough();
+
+export const InsightsResponseSchema = z.object({
+  results: z.object({
+    entities: z.array(RawQlooEntitySchema)
+  }).passthrough(),
+  query: z.record(z.any()).optional(),
+  pagination: z.object({
+    total: z.number().optional()
+  }).passthrough().optional()
+}).passthrough();
+
+// v2 list endpoints nest their results (results.tags, results.audiences); older responses return a bare array
+export const TagsResponseSchema = z.object({
+  results: z.union([
+    z.array(RawQlooTagSchema),
+    z.object({ tags: z.array(RawQlooTagSchema) }).passthrough()
+  ])
+}).passthrough();
+
+export const AudiencesResponseSchema = z.object({
+  results: z.union([
+    z.array(RawQlooAudienceSchema),
+    z.object({ audiences: z.array(RawQlooAudienceSchema) }).passthrough()
+  ])
+}).passthrough();
+
+export const CompareResponseSchema = z.object({
+  results: z.object({
+    tags: z.array(RawQlooComparedTagSchema).optional(),
+    entities: z.array(RawQlooEntitySchema).optional()
+  }).passthrough()
+}).passthrough();
+
+// /entities returns a bare array like /search; accept the v2-style results.entities too
+export const EntitiesResponseSchema = z.object({
+  results: z.union([
+    z.array(RawQlooEntitySchema),
+    z.object({ entities: z.array(RawQlooEntitySchema) }).passthrough()
+  ])
+}).passthrough();
+
+// Insights with filter.type=urn:heatmap return scored cells instead of entities
+export const RawQlooHeatmapCellSchema = z.object({
+  location: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    geohash: z.string().optional()
+  }).passthrough(),
+  query: z.object({
+    affinity: z.number().optional(),
+    affinity_rank: z.number().optional(),
+    popularity: z.number().optional()
+  }).passthrough().optional()
+}).passthrough();
+
+export const HeatmapResponseSchema = z.object({
+  results: z.object({
+    heatmap: z.array(RawQlooHeatmapCellSchema)
+  }).passthrough()
+}).passthrough();
+
+export const TrendsResponseSchema = z.object({
+  results: z.array(RawQlooTrendingEntitySchema)
+}).passthrough();
+
+export type RawQlooEntity = z.infer<typeof RawQlooEntitySchema>;
+export type RawQlooTrendingEntity = z.infer<typeof RawQlooTrendingEntitySchema>;
+export type RawQlooTag = z.infer<typeof RawQlooTagSchema>;
+export type RawQlooAudience = z.infer<typeof RawQlooAudienceSchema>;
+export type RawQlooComparedTag = z.infer<typeof RawQlooComparedTagSchema>;
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+export type InsightsResponse = z.infer<typeof InsightsResponseSchema>;
+export type TagsResponse = z.infer<typeof TagsResponseSchema>;
+export type AudiencesResponse = z.infer<typeof AudiencesResponseSchema>;
+export type CompareResponse = z.infer<typeof CompareResponseSchema>;
+export type EntitiesResponse = z.infer<typeof EntitiesResponseSchema>;
+export type RawQlooHeatmapCell = z.infer<typeof RawQlooHeatmapCellSchema>;
+export type HeatmapResponse = z.infer<typeof HeatmapResponseSchema>;
+export type TrendsResponse = z.infer<typeof TrendsResponseSchema>;
+
+// Flatten zod issues into `path: message` pairs for logs and QlooResponseValidationError
+export function describeIssues(error: z.ZodError): Array<{ path: string; message: string }> {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message
+  }));
+}
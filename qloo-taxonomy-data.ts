@@ -0,0 +1,84 @@
+import { ENTITY_TYPES } from "./qloo-entities";
+
+// Bundled goal categories for the taxonomy registry. Order matters: when goal text matches two
+// categories equally well, the one listed first wins.
+
+export interface GoalCategory {
+  id: string;
+  synonyms: string[]; // Words that put goal text or a project type in this category, inflections included; the id always counts
+  entityTypes: string[]; // Searched for goal recommendations, most relevant first
+  targetEntityType?: string; // Recommended by cross-domain discovery; defaults to the first entity type
+  interestTypes?: string[]; // Favored when resolving interests for this goal; defaults to the entity types
+  defaultTags?: string[]; // Tag signals for when the goal's own entities don't provide any
+}
+
+export const DEFAULT_GOAL_CATEGORIES: GoalCategory[] = [
+  {
+    id: "fitness",
+    synonyms: ["health", "exercise", "shape", "workout", "gym", "runner", "jog", "marathon", "yoga"],
+    entityTypes: [ENTITY_TYPES.PLACE, ENTITY_TYPES.BRAND, ENTITY_TYPES.BOOK],
+    interestTypes: [ENTITY_TYPES.PLACE, ENTITY_TYPES.BRAND],
+    defaultTags: ["urn:tag:genre:place:fitness_studio", "urn:tag:keyword:place:yoga", "urn:tag:keyword:place:hiking"]
+  },
+  {
+    id: "business",
+    synonyms: ["startup", "entrepreneur", "company", "founder"],
+    entityTypes: [ENTITY_TYPES.BRAND, ENTITY_TYPES.BOOK, ENTITY_TYPES.PERSON],
+    targetEntityType: ENTITY_TYPES.PLACE, // Brand insights aren't available on the hackathon API
+    defaultTags: ["urn:tag:keyword:media:entrepreneurship", "urn:tag:genre:place:coworking_space"]
+  },
+  {
+    id: "travel",
+    synonyms: ["explore", "trip", "vacation", "abroad"],
+    entityTypes: [ENTITY_TYPES.DESTINATION, ENTITY_TYPES.PLACE, ENTITY_TYPES.BOOK],
+    interestTypes: [ENTITY_TYPES.DESTINATION, ENTITY_TYPES.PLACE],
+    defaultTags: ["urn:tag:genre:destination:outdoors", "urn:tag:genre:destination:art_culture"]
+  },
+  {
+    id: "learning",
+    synonyms: ["learn", "study", "education", "course", "skill", "career"],
+    entityTypes: [ENTITY_TYPES.BOOK, ENTITY_TYPES.PODCAST, ENTITY_TYPES.PERSON],
+    interestTypes: [ENTITY_TYPES.BOOK, ENTITY_TYPES.PODCAST],
+    defaultTags: ["urn:tag:genre:media:documentary"]
+  },
+  {
+    id: "creative",
+    synonyms: ["art", "music", "design", "write", "paint"],
+    entityTypes: [ENTITY_TYPES.ARTIST, ENTITY_TYPES.BOOK, ENTITY_TYPES.MOVIE],
+    targetEntityType: ENTITY_TYPES.PLACE,
+    defaultTags: ["urn:tag:keyword:media:design", "urn:tag:genre:destination:art_culture"]
+  },
+  {
+    id: "social",
+    synonyms: ["network", "community", "friend", "meet"],
+    entityTypes: [ENTITY_TYPES.PLACE, ENTITY_TYPES.BRAND, ENTITY_TYPES.DESTINATION],
+    interestTypes: [ENTITY_TYPES.PLACE, ENTITY_TYPES.DESTINATION],
+    defaultTags: ["urn:tag:keyword:place:social_club", "urn:tag:amenity:place:live_music"]
+  },
+  {
+    id: "food",
+    synonyms: ["cook", "cuisine", "restaurant", "eat", "dining"],
+    entityTypes: [ENTITY_TYPES.PLACE, ENTITY_TYPES.BOOK, ENTITY_TYPES.BRAND],
+    defaultTags: ["urn:tag:genre:place:restaurant:japanese", "urn:tag:genre:place:restaurant:coffee"]
+  },
+  {
+    id: "entertainment",
+    synonyms: ["movie", "film", "watch", "show"],
+    entityTypes: [ENTITY_TYPES.MOVIE, ENTITY_TYPES.TV_SHOW, ENTITY_TYPES.PODCAST],
+    defaultTags: ["urn:tag:genre:media:documentary"]
+  },
+  {
+    id: "music",
+    synonyms: ["concert", "band", "song"],
+    entityTypes: [ENTITY_TYPES.ARTIST, ENTITY_TYPES.PLACE],
+    defaultTags: ["urn:tag:genre:music:indie", "urn:tag:amenity:place:live_music"]
+  }
+];
+
+// Used for goals that match no category
+export const FALLBACK_GOAL_CATEGORY: GoalCategory = {
+  id: "general",
+  synonyms: [],
+  entityTypes: [ENTITY_TYPES.PLACE],
+  interestTypes: []
+};
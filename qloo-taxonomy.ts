@@ -0,0 +1,182 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { z } from "genkit";
+import { parse as parseYaml } from "yaml";
+import { ENTITY_TYPES } from "./qloo-entities";
+import { DEFAULT_GOAL_CATEGORIES, FALLBACK_GOAL_CATEGORY, GoalCategory } from "./qloo-taxonomy-data";
+import { normalizeText } from "./qloo-text";
+import { describeIssues } from "./qloo-schemas";
+
+export * from "./qloo-taxonomy-data";
+
+// The one place that knows what a goal category means: which entity types to search, which type
+// cross-domain discovery recommends, which types interest resolution favors and which tags stand
+// in when a goal has none. Engines and tools look categories up here by id or synonym.
+//
+// Categories can be added at runtime or loaded from a JSON/YAML file:
+//
+//   categories:
+//     - id: parenting
+//       synonyms: [parent, kids, baby, family]
+//       entityTypes: [place, book, podcast]
+//       defaultTags: [urn:tag:keyword:place:family_friendly]
+
+// Entity types may be given as URNs or by name ("place", "tv_show")
+const EntityTypeSchema = z.string().transform((type, ctx) => {
+  const urn = type.startsWith('urn:') ? type : ENTITY_TYPES[type.toUpperCase() as keyof typeof ENTITY_TYPES];
+  if (!urn) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `unknown entity type "${type}"` });
+    return z.NEVER;
+  }
+  return urn;
+});
+
+const GoalCategorySchema = z.object({
+  id: z.string().min(1),
+  synonyms: z.array(z.string()).default([]),
+  entityTypes: z.array(EntityTypeSchema).min(1),
+  targetEntityType: EntityTypeSchema.optional(),
+  interestTypes: z.array(EntityTypeSchema).optional(),
+  defaultTags: z.array(z.string()).optional()
+});
+
+const TaxonomyFileSchema = z.object({
+  categories: z.array(GoalCategorySchema).default([]),
+  fallback: GoalCategorySchema.optional()
+});
+
+export class QlooTaxonomyError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: Array<{ path: string; message: string }> = []
+  ) {
+    super(message);
+    this.name = 'QlooTaxonomyError';
+  }
+}
+
+function stems(category: GoalCategory): string[] {
+  return [category.id, ...category.synonyms].map(normalizeText).filter(Boolean);
+}
+
+const SUFFIXES = ['s', 'es', 'ed', 'er', 'ers', 'ing', 'ings', 'ist', 'ists', 'y'];
+
+// The word itself and its common inflections: design -> designs, designer; write -> writing;
+// jog -> jogging; study -> studies. Whole words only, so "art" doesn't match "article".
+function inflections(stem: string): string[] {
+  if (stem.includes(' ')) {
+    return [stem];
+  }
+
+  const forms = [stem, ...SUFFIXES.map(suffix => stem + suffix)];
+  const vowelSuffixes = SUFFIXES.filter(suffix => /^[aeiouy]/.test(suffix));
+  if (stem.endsWith('e')) {
+    forms.push(...vowelSuffixes.map(suffix => stem.slice(0, -1) + suffix));
+  } else if (stem.endsWith('y')) {
+    forms.push(stem.slice(0, -1) + 'ies', stem.slice(0, -1) + 'ied');
+  } else if (/[^aeiou][aeiou][bdglmnprt]$/.test(stem)) {
+    forms.push(...vowelSuffixes.map(suffix => stem + stem.slice(-1) + suffix));
+  }
+  return forms;
+}
+
+function words(category: GoalCategory): Set<string> {
+  return new Set(stems(category).flatMap(inflections));
+}
+
+export class GoalTaxonomy {
+  private categories = new Map<string, GoalCategory>();
+
+  constructor(categories: GoalCategory[] = DEFAULT_GOAL_CATEGORIES, private fallback: GoalCategory = FALLBACK_GOAL_CATEGORY) {
+    this.addCategories(categories);
+  }
+
+  // Add categories, replacing any with the same id; new ones rank after the existing ones
+  addCategories(categories: GoalCategory[]): void {
+    categories.forEach(category => this.categories.set(category.id, category));
+  }
+
+  setFallback(category: GoalCategory): void {
+    this.fallback = category;
+  }
+
+  ids(): string[] {
+    return [...this.categories.keys()];
+  }
+
+  // A category by id, or by a synonym when no id matches
+  find(idOrSynonym: string): GoalCategory | undefined {
+    const key = normalizeText(idOrSynonym);
+    return this.categories.get(idOrSynonym)
+      || [...this.categories.values()].find(category => stems(category).includes(key));
+  }
+
+  // Like find, but unknown categories get the fallback
+  get(idOrSynonym: string): GoalCategory {
+    return this.find(idOrSynonym) || this.fallback;
+  }
+
+  // The category whose words, or their inflections, occur most often in the text: "get in shape" ->
+  // fitness, "fitness_journey" -> fitness, "painting classes" -> creative. The fallback's id when
+  // nothing matches.
+  categorize(text: string): string {
+    const textWords = normalizeText(text.replace(/_/g, ' ')).split(' ');
+    let best: { id: string; hits: number } = { id: this.fallback.id, hits: 0 };
+    for (const category of this.categories.values()) {
+      const known = words(category);
+      const hits = textWords.filter(word => known.has(word)).length;
+      if (hits > best.hits) {
+        best = { id: category.id, hits };
+      }
+    }
+    return best.id;
+  }
+
+  entityTypes(idOrSynonym: string): string[] {
+    return this.get(idOrSynonym).entityTypes;
+  }
+
+  targetEntityType(idOrSynonym: string): string {
+    const category = this.get(idOrSynonym);
+    return category.targetEntityType || category.entityTypes[0];
+  }
+
+  // Unknown categories favor nothing, rather than the fallback's types
+  interestTypes(idOrSynonym: string): string[] {
+    const category = this.find(idOrSynonym);
+    return category ? category.interestTypes || category.entityTypes : [];
+  }
+
+  defaultTags(idOrSynonym: string): string[] {
+    return this.get(idOrSynonym).defaultTags || [];
+  }
+
+  // Add the categories in a JSON or YAML file (chosen by extension), and its fallback if it has one
+  async loadFile(file: string): Promise<void> {
+    const text = await fs.readFile(file, 'utf8');
+    const extension = path.extname(file).toLowerCase();
+    let raw: unknown;
+    try {
+      raw = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+    } catch (error) {
+      throw new QlooTaxonomyError(`Could not parse goal taxonomy ${file}: ${(error as Error).message}`);
+    }
+    this.load(raw, file);
+  }
+
+  // Add categories from an already-parsed taxonomy document
+  load(raw: unknown, source = 'taxonomy'): void {
+    const parsed = TaxonomyFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new QlooTaxonomyError(`Invalid goal taxonomy in ${source}`, describeIssues(parsed.error));
+    }
+
+    this.addCategories(parsed.data.categories);
+    if (parsed.data.fallback) {
+      this.setFallback(parsed.data.fallback);
+    }
+  }
+}
+
+// Shared by every engine and tool that isn't given its own
+export const goalTaxonomy = new GoalTaxonomy();
@@ -0,0 +1,45 @@
+// Small text-matching helpers shared by the offline resolvers (gazetteer, interest resolution).
+
+// Lowercase, strip accents and punctuation, collapse whitespace: "Devoción, NY" -> "devocion ny"
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical normalized strings, falling towards 0 as the edit distance grows
+export function stringSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (!left.length && !right.length) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+// Share of the query's words found in the candidate, e.g. "coffee" in "Specialty Coffee" -> 1
+export function tokenOverlap(query: string, candidate: string): number {
+  const queryTokens = normalizeText(query).split(' ').filter(Boolean);
+  const candidateTokens = new Set(normalizeText(candidate).split(' ').filter(Boolean));
+  if (!queryTokens.length) return 0;
+  return queryTokens.filter(token => candidateTokens.has(token)).length / queryTokens.length;
+}
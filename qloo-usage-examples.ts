@@ -14,6 +14,7 @@ import {
   crossDomainDiscoveryEngine,
   createUserTasteProfile,
   createProjectContext,
+  goalTaxonomy,
   ENTITY_TYPES
 } from "./qloo-client";
 
@@ -221,13 +222,15 @@ export async function exampleGoalSystemIntegration(userGoal: string, userContext
     location: userContext.location
   });
 
+  const goalCategory = goalTaxonomy.categorize(userGoal);
+
   // Step 1: Enhance the goal with cultural insights
   const culturalInsights = await culturalGoalArchitect.enhanceGoalWithCulturalInsights(
     userGoal,
     userProfile,
     createProjectContext({
       projectType: "user_defined_goal",
-      goalCategory: categorizeGoal(userGoal),
+      goalCategory,
       userLocation: userContext.location
     })
   );
@@ -240,7 +243,7 @@ export async function exampleGoalSystemIntegration(userGoal: string, userContext
       userProfile,
       createProjectContext({
         projectType: project.projectName.toLowerCase().replace(/\s+/g, '_'),
-        goalCategory: categorizeGoal(userGoal),
+        goalCategory,
         userLocation: userContext.location
       })
     );
@@ -254,10 +257,10 @@ export async function exampleGoalSystemIntegration(userGoal: string, userContext
   // Step 3: Discover cross-domain opportunities
   const crossDomainInsights = await crossDomainDiscoveryEngine.discoverUnexpectedConnections(
     extractedInterests,
-    categorizeGoal(userGoal),
+    goalCategory,
     createProjectContext({
       projectType: "discovery",
-      goalCategory: categorizeGoal(userGoal),
+      goalCategory,
       userLocation: userContext.location
     })
   );
@@ -279,24 +282,9 @@ function extractInterestsFromGoal(goal: string, context: any): string[] {
   return [...new Set([...keywords, ...contextInterests])].slice(0, 10);
 }
 
-function categorizeGoal(goal: string): string {
-  const goalLower = goal.toLowerCase();
-  
-  if (goalLower.includes('fitness') || goalLower.includes('health') || goalLower.includes('exercise')) {
-    return 'fitness';
-  } else if (goalLower.includes('business') || goalLower.includes('startup') || goalLower.includes('entrepreneur')) {
-    return 'business';
-  } else if (goalLower.includes('travel') || goalLower.includes('explore')) {
-    return 'travel';
-  } else if (goalLower.includes('learn') || goalLower.includes('study') || goalLower.includes('education')) {
-    return 'learning';
-  } else if (goalLower.includes('creative') || goalLower.includes('art') || goalLower.includes('music')) {
-    return 'creative';
-  } else if (goalLower.includes('social') || goalLower.includes('network') || goalLower.includes('community')) {
-    return 'social';
-  }
-  
-  return 'general';
+// Kept for existing callers; the goal taxonomy does the work
+export function categorizeGoal(goal: string): string {
+  return goalTaxonomy.categorize(goal);
 }
 
 function calculateOverallFitScore(culturalInsights: any, crossDomainInsights: any): number {
@@ -372,6 +360,5 @@ export async function runAllQlooExamples() {
 // Export for use in Firebase Functions
 export {
   extractInterestsFromGoal,
-  categorizeGoal,
   calculateOverallFitScore
 };
\ No newline at end of file
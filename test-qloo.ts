@@ -15,11 +15,20 @@
  *   cross-domain  - Test Cross-Domain Discovery Engine
  *   full-demo     - Run complete demo scenario
  *   interactive   - Interactive testing mode
+ *   fake-server   - Serve the bundled fake Qloo API over HTTP
+ *   profile-store - Test the taste profile store (in memory, or --firestore against the emulator)
+ *
+ * Global options:
+ *   --offline     - Run against the in-process fake Qloo server (no network or API key needed)
+ *   --taxonomy <file> - Add goal categories from a JSON or YAML file
  * 
  * Examples:
  *   npm run test-qloo basic-api
  *   npm run test-qloo goal-architect --goal "get healthier" --interests "indie music,coffee"
  *   npm run test-qloo full-demo --location "Brooklyn, NY"
+ *   npm run test-qloo -- --offline full-demo
+ *   npm run test-qloo full-demo --record ./qloo-cassettes
+ *   npm run test-qloo full-demo --replay ./qloo-cassettes
  */
 
 import { program } from 'commander';
@@ -33,8 +42,49 @@ import {
   createProjectContext,
   ENTITY_TYPES,
   QlooEntity,
-  UserTasteProfile
+  isPlaceEntity,
+  UserTasteProfile,
+  QlooClient,
+  CulturalGoalArchitect,
+  SmartProjectComponentGenerator,
+  CrossDomainDiscoveryEngine,
+  goalTaxonomy,
+  InterestResolver,
+  TasteProfileRepository,
+  InMemoryTasteProfileRepository,
+  FirestoreTasteProfileRepository,
+  QlooProfileConflictError,
+  mergeResolvedInterests,
+  toUserTasteProfile,
+  feedbackSignals
 } from './qloo-client';
+import { FakeQlooServer, FAKE_QLOO_BASE_URL } from './qloo-fake-server';
+import { DEFAULT_CASSETTE_DIR } from './qloo-cassette';
+
+// Client and engines under test; swapped out by --offline
+let client: QlooClient = qloo;
+let goalArchitect: CulturalGoalArchitect = culturalGoalArchitect;
+let componentGenerator: SmartProjectComponentGenerator = smartProjectComponentGenerator;
+let discoveryEngine: CrossDomainDiscoveryEngine = crossDomainDiscoveryEngine;
+
+function useQlooClient(newClient: QlooClient) {
+  client = newClient;
+  goalArchitect = new CulturalGoalArchitect(newClient);
+  componentGenerator = new SmartProjectComponentGenerator(newClient);
+  discoveryEngine = new CrossDomainDiscoveryEngine(newClient);
+}
+
+// --record [dir] captures real responses, --replay <dir> serves them back without network access
+function useCassetteOptions(options: { record?: string | boolean; replay?: string }) {
+  if (options.replay) {
+    printInfo(`Replaying Qloo responses from ${options.replay}`);
+    useQlooClient(new QlooClient({ cassette: { mode: 'replay', dir: options.replay } }));
+  } else if (options.record) {
+    const dir = typeof options.record === 'string' ? options.record : DEFAULT_CASSETTE_DIR;
+    printInfo(`Recording Qloo responses to ${dir}`);
+    useQlooClient(new QlooClient({ cassette: { mode: 'record', dir } }));
+  }
+}
 
 // Colors for console output
 const colors = {
@@ -81,7 +131,7 @@ async function testBasicAPI() {
   try {
     // Test 1: Simple entity search
     printInfo('Testing entity search...');
-    const searchResults = await qloo.searchEntities('coffee shop', [ENTITY_TYPES.PLACE], {
+    const searchResults = await client.searchEntities('coffee shop', [ENTITY_TYPES.PLACE], {
       location: 'New York, NY',
       take: 5
     });
@@ -98,7 +148,7 @@ async function testBasicAPI() {
 
     // Test 2: Basic insights query
     printInfo('Testing basic insights...');
-    const insights = await qloo.getInsights({
+    const insights = await client.getInsights({
       filterType: ENTITY_TYPES.PLACE,
       signals: {
         location: { query: 'Brooklyn, NY' },
@@ -117,7 +167,7 @@ async function testBasicAPI() {
 
     // Test 3: Tags search
     printInfo('Testing tags search...');
-    const tags = await qloo.searchTags('coffee', { take: 5 });
+    const tags = await client.searchTags('coffee', { take: 5 });
     
     if (tags.length > 0) {
       printSuccess(`Found ${tags.length} coffee-related tags`);
@@ -128,6 +178,16 @@ async function testBasicAPI() {
       printWarning('No tags found');
     }
 
+    // Test 4: Entity lookup by ID
+    if (insights.results.length > 0) {
+      printInfo('Testing entity lookup...');
+      const entities = await client.getEntities(insights.results.slice(0, 3).map(r => r.id));
+      printSuccess(`Fetched ${entities.length} entities by ID`);
+      entities.forEach((entity, i) => {
+        console.log(`  ${i + 1}. ${entity.name} - ${isPlaceEntity(entity) ? entity.properties.address : entity.type}`);
+      });
+    }
+
     printSuccess('Basic API test completed successfully!');
     return true;
 
@@ -157,13 +217,14 @@ async function testGoalArchitect(goal: string, interests: string[], options: any
 
     const context = createProjectContext({
       projectType: 'user_goal',
-      goalCategory: categorizeGoal(goal),
+      goalCategory: goalTaxonomy.categorize(goal),
       userLocation: options.location,
-      timeframe: options.timeframe || '3 months'
+      timeframe: options.timeframe || '3 months',
+      budget: options.budget
     });
 
     printInfo('Enhancing goal with cultural insights...');
-    const enhancement = await culturalGoalArchitect.enhanceGoalWithCulturalInsights(
+    const enhancement = await goalArchitect.enhanceGoalWithCulturalInsights(
       goal,
       userProfile,
       context
@@ -171,6 +232,12 @@ async function testGoalArchitect(goal: string, interests: string[], options: any
 
     // Display results
     console.log('\n📊 Results:');
+
+    console.log(`\n🧭 Resolved Interests (${enhancement.resolvedInterests.length}):`);
+    enhancement.resolvedInterests.forEach(interest => {
+      const names = interest.entities.map(entity => entity.name).join(', ') || 'nothing confident';
+      console.log(`  - ${interest.query} → ${names} (${(interest.confidence * 100).toFixed(0)}%${interest.ambiguous ? ', ambiguous' : ''})`);
+    });
     
     console.log(`\n🎯 Personalized Projects (${enhancement.personalizedProjects.length}):`);
     enhancement.personalizedProjects.forEach((project, i) => {
@@ -182,12 +249,18 @@ async function testGoalArchitect(goal: string, interests: string[], options: any
           console.log(`       - ${item.name} (${(item.affinity || 0) * 100}% match)`);
         });
       }
+      if (project.schedule?.length) {
+        console.log(`     Schedule: ${project.schedule.map(item => `${item.date} ${item.name}`).join(', ')}`);
+      }
     });
 
     console.log(`\n🔗 Cross-Domain Connections (${enhancement.crossDomainConnections.length}):`);
     enhancement.crossDomainConnections.forEach((connection, i) => {
-      console.log(`  ${i + 1}. ${connection.from} → ${connection.to}`);
+      console.log(`  ${i + 1}. ${connection.from} → ${connection.to}${connection.synthetic ? ' (synthetic)' : ''}`);
       console.log(`     Strength: ${(connection.strength * 100).toFixed(1)}%`);
+      if (connection.sharedTags.length > 0) {
+        console.log(`     Shared: ${connection.sharedTags.map(tag => tag.name).join(', ')}`);
+      }
     });
 
     console.log(`\n💡 Cultural Recommendations (${enhancement.culturalRecommendations.length}):`);
@@ -226,12 +299,14 @@ async function testSmartComponents(projectType: string, interests: string[], opt
 
     const context = createProjectContext({
       projectType,
-      goalCategory: categorizeProject(projectType),
-      userLocation: options.location
+      goalCategory: goalTaxonomy.categorize(projectType),
+      userLocation: options.location,
+      timeframe: options.timeframe,
+      budget: options.budget
     });
 
     printInfo('Generating smart components...');
-    const recommendations = await smartProjectComponentGenerator.generateComponentRecommendations(
+    const recommendations = await componentGenerator.generateComponentRecommendations(
       projectType,
       userProfile,
       context
@@ -301,7 +376,7 @@ async function testCrossDomainDiscovery(interests: string[], targetDomain: strin
     });
 
     printInfo('Discovering cross-domain connections...');
-    const discoveries = await crossDomainDiscoveryEngine.discoverUnexpectedConnections(
+    const discoveries = await discoveryEngine.discoverUnexpectedConnections(
       interests,
       targetDomain,
       context
@@ -320,6 +395,8 @@ async function testCrossDomainDiscovery(interests: string[], targetDomain: strin
     console.log(`\n🌉 Domain Bridges (${discoveries.domainBridges.length}):`);
     discoveries.domainBridges.forEach((bridge, i) => {
       console.log(`  ${i + 1}. ${bridge.domain1} ↔ ${bridge.domain2}`);
+      console.log(`     Strength: ${(bridge.strength * 100).toFixed(1)}%`);
+      console.log(`     Bridging Tags: ${bridge.bridgingTags.map(tag => tag.name).join(', ')}`);
       console.log(`     Bridge Entities: ${bridge.bridgeEntities.length}`);
       bridge.bridgeEntities.slice(0, 3).forEach(entity => {
         console.log(`       - ${entity.name}`);
@@ -334,8 +411,9 @@ async function testCrossDomainDiscovery(interests: string[], targetDomain: strin
       discoveries.trendingCrossOvers.slice(0, 5).forEach((trend, i) => {
         console.log(`  ${i + 1}. ${trend.name}`);
         console.log(`     Type: ${trend.type}`);
+        console.log(`     Trending Score: ${(trend.trend.score * 100).toFixed(1)}%`);
         if (trend.affinity) {
-          console.log(`     Trending Score: ${(trend.affinity * 100).toFixed(1)}%`);
+          console.log(`     Taste Match: ${(trend.affinity * 100).toFixed(1)}%`);
         }
       });
     } else {
@@ -414,7 +492,7 @@ async function runFullDemo(options: any = {}) {
 
     // Step 3: Cross-Domain Discovery
     console.log('\n🔍 Step 3: Cross-Domain Discovery');
-    const targetDomain = categorizeGoal(scenario.goal);
+    const targetDomain = goalTaxonomy.categorize(scenario.goal);
     await testCrossDomainDiscovery(
       scenario.interests,
       targetDomain,
@@ -423,6 +501,16 @@ async function runFullDemo(options: any = {}) {
 
     printSuccess(`Full demo completed for ${scenario.name}!`);
 
+    const cacheStats = client.getCacheStats();
+    if (cacheStats) {
+      printInfo(`Qloo cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses (${(cacheStats.hitRate * 100).toFixed(1)}% hit rate)`);
+    }
+
+    const limiterStats = client.getRateLimiterStats();
+    if (limiterStats) {
+      printInfo(`Qloo rate limiter: ${limiterStats.completed} requests, average wait ${limiterStats.averageWaitMs.toFixed(0)}ms, max wait ${limiterStats.maxWaitMs}ms`);
+    }
+
   } catch (error) {
     printError(`Full demo failed: ${error}`);
     console.error(error);
@@ -477,50 +565,113 @@ async function runInteractiveMode() {
   }
 }
 
-// Utility functions
-function categorizeGoal(goal: string): string {
-  const goalLower = goal.toLowerCase();
-  
-  if (goalLower.includes('fitness') || goalLower.includes('health') || goalLower.includes('exercise') || goalLower.includes('shape')) {
-    return 'fitness';
-  } else if (goalLower.includes('business') || goalLower.includes('startup') || goalLower.includes('entrepreneur')) {
-    return 'business';
-  } else if (goalLower.includes('travel') || goalLower.includes('explore')) {
-    return 'travel';
-  } else if (goalLower.includes('learn') || goalLower.includes('study') || goalLower.includes('education') || goalLower.includes('career')) {
-    return 'learning';
-  } else if (goalLower.includes('creative') || goalLower.includes('art') || goalLower.includes('music')) {
-    return 'creative';
-  } else if (goalLower.includes('social') || goalLower.includes('network') || goalLower.includes('community')) {
-    return 'social';
-  }
-  
-  return 'general';
-}
+// Test 6: Taste Profile Store
+async function testProfileStore(options: { firestore?: boolean } = {}) {
+  printHeader('Taste Profile Store Test');
 
-function categorizeProject(projectType: string): string {
-  const typeMap: Record<string, string> = {
-    'fitness': 'fitness',
-    'health': 'fitness', 
-    'business': 'business',
-    'startup': 'business',
-    'travel': 'travel',
-    'learning': 'learning',
-    'education': 'learning',
-    'creative': 'creative',
-    'art': 'creative',
-    'social': 'social',
-    'networking': 'social'
-  };
+  try {
+    let store: TasteProfileRepository;
+    if (options.firestore) {
+      if (!process.env.FIRESTORE_EMULATOR_HOST) {
+        printError('Set FIRESTORE_EMULATOR_HOST (e.g. localhost:8080) to test against the Firestore emulator');
+        return null;
+      }
+      const { initializeApp } = await import('firebase-admin/app');
+      const { getFirestore } = await import('firebase-admin/firestore');
+      store = new FirestoreTasteProfileRepository(getFirestore(initializeApp({ projectId: 'demo-qloo' })));
+      printInfo(`Using the Firestore emulator at ${process.env.FIRESTORE_EMULATOR_HOST}`);
+    } else {
+      store = new InMemoryTasteProfileRepository();
+      printInfo('Using the in-memory store');
+    }
+
+    const id = `test-${Date.now()}`;
+    const interests = ['indie music', 'coffee'];
+    let profile = await store.save(id, { interests, location: { query: 'Brooklyn, NY' } }, { expectedVersion: 0 });
+    printInfo(`Created profile ${id} (version ${profile.version})`);
 
-  return typeMap[projectType.toLowerCase()] || 'general';
+    const resolved = await new InterestResolver(client).resolve(profile.interests);
+    profile = await store.save(id, { resolvedInterests: mergeResolvedInterests(profile, resolved) }, { expectedVersion: profile.version });
+    console.log(`\n🧭 Stored Interests (version ${profile.version}):`);
+    profile.resolvedInterests.forEach(interest => {
+      console.log(`  - ${interest.query} → ${interest.names.join(', ') || 'nothing confident'}`);
+    });
+    console.log(`  Sent to the engines as: ${toUserTasteProfile(profile).interests.join(', ')}`);
+
+    profile = await store.save(id, { interests: [...interests, 'hiking'] });
+    const unchanged = await store.save(id, { interests: [...interests, 'hiking'] });
+    printInfo(`Added an interest (version ${profile.version}); saving it again left the version at ${unchanged.version}`);
+
+    try {
+      await store.save(id, { interests }, { expectedVersion: 1 });
+      printError('A stale save was accepted');
+    } catch (error) {
+      if (!(error instanceof QlooProfileConflictError)) throw error;
+      printInfo(`Stale save rejected: ${error.message}`);
+    }
+
+    const history = await store.history(id);
+    console.log(`\n📜 History (${history.length}):`);
+    history.forEach(change => {
+      console.log(`  v${change.version} ${change.changedAt}: ${change.fields.join(', ')}`);
+    });
+
+    // Reject the top recommendation and love the next; neither should come back, though the loved one steers the results
+    const query = { filterType: ENTITY_TYPES.PLACE, signals: { tags: ['urn:tag:genre:place:restaurant:coffee'] }, take: 5 };
+    const before = (await client.getInsights(query)).results;
+    if (before.length >= 2) {
+      await store.addFeedback(id, [
+        { entityId: before[0].id, name: before[0].name, reaction: 'rejected', at: new Date().toISOString() },
+        { entityId: before[1].id, name: before[1].name, reaction: 'loved', at: new Date().toISOString() }
+      ]);
+      const feedback = feedbackSignals(await store.listFeedback(id));
+      const after = (await client.getInsights({ ...query, feedback })).results;
+      console.log(`\n👍 Feedback: rejected ${before[0].name}, loved ${before[1].name}`);
+      console.log(`  Now recommended: ${after.map(entity => entity.name).join(', ')}`);
+      if (after.some(entity => entity.id === before[0].id || entity.id === before[1].id)) {
+        printError('A rejected or loved recommendation came back');
+      }
+    }
+
+    await store.delete(id);
+    printSuccess('Taste Profile Store test completed!');
+    return history;
+
+  } catch (error) {
+    printError(`Taste Profile Store test failed: ${error}`);
+    console.error(error);
+    return null;
+  }
 }
 
 // CLI Setup
 program
   .name('test-qloo')
   .description('Test Qloo integration features')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--offline', 'Use the in-process fake Qloo server instead of the real API')
+  .option('--taxonomy <file>', 'Add goal categories from a JSON or YAML file');
+
+program.hook('preAction', async () => {
+  if (program.opts().taxonomy) {
+    try {
+      await goalTaxonomy.loadFile(program.opts().taxonomy);
+    } catch (error) {
+      printError(`Could not load goal categories: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    printInfo(`Loaded goal categories from ${program.opts().taxonomy}`);
+  }
+
+  if (program.opts().offline) {
+    printInfo('Running offline against the fake Qloo server');
+    useQlooClient(new QlooClient({
+      apiKey: 'offline',
+      baseUrl: FAKE_QLOO_BASE_URL,
+      fetch: new FakeQlooServer().fetch
+    }));
+  }
+});
 
 program
   .command('basic-api')
@@ -537,7 +688,12 @@ program
   .option('-l, --location <location>', 'User location')
   .option('-a, --age <age>', 'Age range')
   .option('-p, --price-range <range>', 'Price range as JSON')
+  .option('-t, --timeframe <timeframe>', 'Project timeframe, e.g. "3 months" or "this weekend"')
+  .option('-b, --budget <budget>', 'Budget, e.g. "moderate" or "$200/month"')
+  .option('--record [dir]', 'Record Qloo responses to a cassette directory')
+  .option('--replay <dir>', 'Replay Qloo responses from a cassette directory')
   .action(async (options) => {
+    useCassetteOptions(options);
     const interests = options.interests.split(',').map((i: string) => i.trim());
     await testGoalArchitect(options.goal, interests, options);
   });
@@ -549,6 +705,8 @@ program
   .option('-i, --interests <interests>', 'Comma-separated interests', 'yoga,mindfulness,healthy_food')
   .option('-l, --location <location>', 'User location')
   .option('-a, --age <age>', 'Age range')
+  .option('-t, --timeframe <timeframe>', 'Project timeframe, e.g. "6 weeks"')
+  .option('-b, --budget <budget>', 'Budget, e.g. "low" or "$50/week"')
   .action(async (options) => {
     const interests = options.interests.split(',').map((i: string) => i.trim());
     await testSmartComponents(options.projectType, interests, options);
@@ -570,7 +728,10 @@ program
   .description('Run complete demo scenario')
   .option('-s, --scenario <number>', 'Demo scenario (1-3)', '1')
   .option('-l, --location <location>', 'Override location')
+  .option('--record [dir]', 'Record Qloo responses to a cassette directory')
+  .option('--replay <dir>', 'Replay Qloo responses from a cassette directory')
   .action(async (options) => {
+    useCassetteOptions(options);
     await runFullDemo(options);
   });
 
@@ -581,6 +742,24 @@ program
     await runInteractiveMode();
   });
 
+program
+  .command('fake-server')
+  .description('Serve the fake Qloo API over HTTP for offline runs')
+  .option('-p, --port <port>', 'Port to listen on', '4010')
+  .action(async (options) => {
+    const { url } = await new FakeQlooServer().listen(parseInt(options.port));
+    printSuccess(`Fake Qloo API listening on ${url}`);
+    printInfo(`Point the client at it with QLOO_BASE_URL=${url}`);
+  });
+
+program
+  .command('profile-store')
+  .description('Test the taste profile store')
+  .option('--firestore', 'Use the Firestore emulator (FIRESTORE_EMULATOR_HOST) instead of memory')
+  .action(async (options) => {
+    await testProfileStore(options);
+  });
+
 // Handle command line arguments
 if (require.main === module) {
   program.parse();
@@ -592,5 +771,6 @@ export {
   testSmartComponents,
   testCrossDomainDiscovery,
   runFullDemo,
-  runInteractiveMode
+  runInteractiveMode,
+  testProfileStore
 };
\ No newline at end of file